@@ -1,244 +1,261 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from "react";
-import { Tab, TabsState, TabRouterConfig } from "./types";
-
-// Action types
-type TabsAction =
-    | { type: "ADD_TAB"; payload: Tab }
-    | { type: "REPLACE_TAB"; payload: Tab }
-    | { type: "CLOSE_TAB"; payload: string }
-    | { type: "CLOSE_OTHER_TABS"; payload: string }
-    | { type: "SET_ACTIVE_TAB"; payload: string }
-    | { type: "REORDER_TABS"; payload: { fromIndex: number; toIndex: number } }
-    | { type: "UPDATE_TAB_PARAMS"; payload: { path: string; params: Record<string, string> } };
-
+import React, {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useLayoutEffect,
+    useMemo,
+    useRef,
+    useState,
+    ReactNode,
+} from "react";
+import { useSyncExternalStore } from "use-sync-external-store/shim";
+import { Tab, TabInput, TabsState, TabRouterConfig, RouteDefinition, RouterScope } from "./types";
+import { matchRoutes, resolveTab } from "./routeMatcher";
+import { removeState } from "./persistence";
+import { useUrlSync } from "./hooks/useUrlSync";
+import { usePersistence } from "./hooks/usePersistence";
+import { useWindowSync } from "./hooks/useWindowSync";
+import { defaultConfig } from "./tabsReducer";
+import { createTabStore, isSameConfig, TabsDispatch, TabStore } from "./tabStore";
+import { createScopeRegistry, scopeConfig, ScopeRegistry } from "./scopes";
+import { createLoaderCache, LoaderCache, LoadOptions } from "./loaders";
+import { preloadRoute } from "./lazy";
+import { TabPanelContext } from "./hooks/useTabVisibility";
+import { GuardChecks, GuardRegistry } from "./guards";
+
+// The context only changes with the config or routes; the state is read from the store
 interface TabRouterContextValue {
-    state: TabsState;
-    dispatch: React.Dispatch<TabsAction>;
+    store: TabStore;
+    dispatch: TabsDispatch;
     config: Required<TabRouterConfig>;
+    routes: RouteDefinition[];
+    getTabKey: (tab: TabInput) => string;
+    guards: GuardRegistry;
+    canClose: GuardChecks["canClose"];
+    canNavigate: GuardChecks["canNavigate"];
+    canAddTab: (tab: TabInput) => boolean;
+    scopes: ScopeRegistry;
+    loaders: LoaderCache;
+    loadTab: (tab: Tab, options?: LoadOptions) => Promise<void>;
+    prefetchTab: (tab: Tab) => Promise<void>;
+    parent?: TabRouterContextValue;
 }
 
 const TabRouterContext = createContext<TabRouterContextValue | undefined>(undefined);
 
-const defaultConfig: Required<TabRouterConfig> = {
-    storageKey: "tabrouter-tabs",
-    activeTabStorageKey: "tabrouter-active-tab",
-    initialPath: "/",
-};
-
-// Reducer function
-const createTabsReducer = (config: Required<TabRouterConfig>) => {
-    const { storageKey, activeTabStorageKey } = config;
-
-    return (state: TabsState, action: TabsAction): TabsState => {
-        let newState: TabsState;
-
-        switch (action.type) {
-            case "ADD_TAB": {
-                const newTab = action.payload;
-                const existingTab = state.tabs.findIndex((tab) => tab.path === newTab.path);
-
-                if (existingTab !== -1) {
-                    newState = {
-                        ...state,
-                        active_index: existingTab,
-                        tabs: state.tabs.map((tab, idx) => (idx === existingTab ? newTab : tab)),
-                    };
-                } else {
-                    const newTabs = [...state.tabs, newTab];
-                    newState = {
-                        tabs: newTabs,
-                        active_index: newTabs.length - 1,
-                    };
-                }
-                break;
-            }
-
-            case "REPLACE_TAB": {
-                const newTab = action.payload;
-                const existingTab = state.tabs.findIndex((tab) => tab.path === newTab.path);
-
-                if (existingTab !== -1) {
-                    newState = {
-                        ...state,
-                        active_index: existingTab,
-                    };
-                } else {
-                    const newTabs = [...state.tabs];
-                    newTabs[state.active_index] = newTab;
-                    newState = {
-                        ...state,
-                        tabs: newTabs,
-                    };
-                }
-                break;
-            }
-
-            case "CLOSE_TAB": {
-                const closingPath = action.payload;
-                const closingIndex = state.tabs.findIndex((tab) => tab.path === closingPath);
-
-                if (closingIndex === -1 || state.tabs.length < 2) {
-                    return state;
-                }
+interface TabRouterProviderProps {
+    children: ReactNode;
+    config?: TabRouterConfig;
+    routes?: RouteDefinition[];
+    store?: TabStore;
+}
 
-                const newTabs = state.tabs.filter((_, idx) => idx !== closingIndex);
-                let newActiveIndex = state.active_index;
+const emptyRoutes: RouteDefinition[] = [];
 
-                if (state.active_index === closingIndex) {
-                    newActiveIndex = newTabs.length === 0 ? 0 : Math.min(closingIndex, newTabs.length - 1);
-                } else if (state.active_index > closingIndex) {
-                    newActiveIndex = Math.max(0, state.active_index - 1);
-                }
+// Layout effects warn during server rendering, where there is nothing to lay out
+const useIsomorphicLayoutEffect = typeof window === "undefined" ? useEffect : useLayoutEffect;
 
-                newState = {
-                    tabs: newTabs,
-                    active_index: newActiveIndex,
-                };
-                break;
-            }
+export const TabRouterProvider: React.FC<TabRouterProviderProps> = ({
+    children,
+    config = {},
+    routes: routesProp = emptyRoutes,
+    store: storeProp,
+}) => {
+    // A provider inside another router's tab is scoped to that tab
+    const parent = useContext(TabRouterContext);
+    const panel = useContext(TabPanelContext);
+    const [parentTabId] = useState(() => {
+        const parentState = parent?.store.getState();
+        return panel?.tab.id ?? parentState?.tabs[parentState.active_index]?.id;
+    });
+    const baseConfig = { ...defaultConfig, ...config };
+    const finalConfig =
+        parent && parentTabId ? scopeConfig(baseConfig, config, parent.config, parentTabId) : baseConfig;
+
+    // A store passed in brings its own config and routes
+    const [store] = useState(() => storeProp || createTabStore(finalConfig, routesProp));
+
+    // Keep the config object while its values are unchanged, so the context only changes with them
+    const ownConfig = useRef({ config: finalConfig, routes: routesProp });
+    if (ownConfig.current.routes !== routesProp || !isSameConfig(ownConfig.current.config, finalConfig)) {
+        ownConfig.current = { config: finalConfig, routes: routesProp };
+    }
+    const storeConfig = storeProp ? store.getConfig() : ownConfig.current.config;
+    const routes = storeProp ? store.getRoutes() : ownConfig.current.routes;
 
-            case "CLOSE_OTHER_TABS": {
-                const keepTab = state.tabs.find((tab) => tab.path === action.payload);
-                if (!keepTab) {
-                    return state;
-                }
-                newState = {
-                    tabs: [keepTab],
-                    active_index: 0,
-                };
-                break;
-            }
+    // The store takes the new config, including the latest callbacks, once the render commits
+    useIsomorphicLayoutEffect(() => {
+        if (!storeProp) {
+            store.configure(finalConfig, routesProp);
+        }
+    });
 
-            case "SET_ACTIVE_TAB": {
-                const tabIndex = state.tabs.findIndex((tab) => tab.path === action.payload);
-                if (tabIndex === -1) {
-                    return state;
-                }
-                newState = {
-                    ...state,
-                    active_index: tabIndex,
-                };
-                break;
-            }
+    const state = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+    const isHydrating = useSyncExternalStore(store.subscribe, store.isHydrating, store.isHydrating);
+    const { getTabKey, guards } = store;
 
-            case "REORDER_TABS": {
-                const { fromIndex, toIndex } = action.payload;
-                const newTabs = [...state.tabs];
-                const [movedTab] = newTabs.splice(fromIndex, 1);
-                newTabs.splice(toIndex, 0, movedTab);
-                newState = {
-                    tabs: newTabs,
-                    active_index: toIndex,
-                };
-                break;
-            }
+    useWindowSync(storeConfig.windowSync, `tabrouter:${storeConfig.storageKey}`, state, store);
 
-            case "UPDATE_TAB_PARAMS": {
-                const { path, params } = action.payload;
-                const tabIndex = state.tabs.findIndex((tab) => tab.path === path);
-                if (tabIndex === -1) {
-                    return state;
-                }
-                newState = {
-                    ...state,
-                    tabs: state.tabs.map((tab, idx) =>
-                        idx === tabIndex ? { ...tab, params: params || {} } : tab
-                    ),
-                    active_index: tabIndex,
-                };
-                break;
+    // Warn before leaving the page while any open tab is dirty
+    useEffect(() => {
+        if (typeof window === "undefined") {
+            return;
+        }
+        const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+            if (guards.hasBlocking()) {
+                event.preventDefault();
+                event.returnValue = "";
             }
+        };
+        window.addEventListener("beforeunload", handleBeforeUnload);
+        return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+    }, [guards]);
 
-            default:
-                return state;
+    // Remove the state of nested routers once their tab is closed
+    const scopes = useRef(createScopeRegistry()).current;
+    useEffect(() => {
+        if (!isHydrating) {
+            scopes.cleanupClosed(state.tabs.map((tab) => tab.id));
         }
+    }, [scopes, isHydrating, state.tabs]);
 
-        // Persist to sessionStorage
-        if (typeof window !== "undefined") {
-            sessionStorage.setItem(storageKey, JSON.stringify(newState.tabs));
-            sessionStorage.setItem(activeTabStorageKey, String(newState.active_index));
+    const { storageKey } = storeConfig;
+    useEffect(() => {
+        if (parent && parentTabId) {
+            parent.scopes.register(parentTabId, storageKey, () => {
+                removeState(store.getConfig());
+                scopes.cleanupAll();
+            });
         }
+    }, [parent?.scopes, parentTabId, storageKey, scopes, store]);
 
-        return newState;
-    };
-};
-
-// Get initial state
-const getInitialState = (config: Required<TabRouterConfig>): TabsState => {
-    const { storageKey, activeTabStorageKey, initialPath } = config;
-    const initialTab: Tab = { path: initialPath, params: {} };
-
-    if (typeof window === "undefined") {
-        return {
-            tabs: [initialTab],
-            active_index: 0,
-        };
-    }
-
-    const storedTabs = sessionStorage.getItem(storageKey);
-    const storedActiveIndex = sessionStorage.getItem(activeTabStorageKey);
-
-    return {
-        tabs: storedTabs ? JSON.parse(storedTabs) || [initialTab] : [initialTab],
-        active_index: storedActiveIndex ? Number(storedActiveIndex) || 0 : 0,
-    };
-};
-
-interface TabRouterProviderProps {
-    children: ReactNode;
-    config?: TabRouterConfig;
-}
+    // Closing the parent tab discards this router, so its blocking guards protect that tab too
+    useEffect(() => {
+        if (!parent || !parentTabId) {
+            return;
+        }
+        return parent.guards.register(parentTabId, {
+            shouldBlock: () => guards.hasBlocking(),
+            getMessage: () => guards.getBlocking(store.getState().tabs.map((tab) => tab.id))[0]?.getMessage() ?? "",
+        });
+    }, [parent?.guards, parentTabId, guards, store]);
+
+    // Route loader results, cached per tab identity
+    const loaders = useRef(createLoaderCache()).current;
+    const loadTab = useCallback(
+        (tab: Tab, options?: LoadOptions) => {
+            const resolved = resolveTab(tab, routes);
+            return loaders.load(getTabKey(resolved), resolved, routes, options);
+        },
+        [loaders, routes, getTabKey]
+    );
 
-export const TabRouterProvider: React.FC<TabRouterProviderProps> = ({
-    children,
-    config = {},
-}) => {
-    const finalConfig = { ...defaultConfig, ...config };
-    const [state, dispatch] = useReducer(
-        createTabsReducer(finalConfig),
-        getInitialState(finalConfig)
+    // Load a tab's lazy component and data before it is opened
+    const prefetchTab = useCallback(
+        (tab: Tab) =>
+            Promise.all([
+                preloadRoute(matchRoutes(routes, tab.path)?.route),
+                loadTab(tab, { prefetch: true }),
+            ]).then(() => undefined),
+        [routes, loadTab]
     );
 
-    // Sync state from sessionStorage on mount (for SSR/hydration)
+    // Run the route loader of the active tab when it is opened or activated
+    const activeTab = state.tabs[state.active_index];
     useEffect(() => {
-        if (typeof window !== "undefined") {
-            const storedTabs = sessionStorage.getItem(finalConfig.storageKey);
-            const storedActiveIndex = sessionStorage.getItem(finalConfig.activeTabStorageKey);
-
-            if (storedTabs && storedActiveIndex !== null) {
-                const parsedTabs = JSON.parse(storedTabs);
-                const parsedIndex = Number(storedActiveIndex);
-
-                if (
-                    JSON.stringify(parsedTabs) !== JSON.stringify(state.tabs) ||
-                    parsedIndex !== state.active_index
-                ) {
-                    dispatch({
-                        type: "SET_ACTIVE_TAB",
-                        payload: parsedTabs[parsedIndex]?.path || state.tabs[state.active_index]?.path || finalConfig.initialPath,
-                    });
-                }
-            }
+        if (!isHydrating && activeTab) {
+            loadTab(activeTab);
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []); // Only run on mount
+    }, [isHydrating, activeTab?.id, activeTab?.path, activeTab?.params]);
 
-    const value: TabRouterContextValue = {
-        state,
-        dispatch,
-        config: finalConfig,
-    };
+    // Abort the loads of closed tabs and drop their data
+    useEffect(() => {
+        if (!isHydrating) {
+            loaders.retain(state.tabs.map(getTabKey));
+        }
+    }, [loaders, isHydrating, state.tabs, getTabKey]);
+    useEffect(() => () => loaders.clear(), [loaders]);
+
+    usePersistence(!isHydrating, state, storeConfig);
+    useUrlSync(storeConfig.urlSync, state, store.dispatch, routes, storeConfig.queryCodec);
+
+    const value = useMemo<TabRouterContextValue>(
+        () => ({
+            store,
+            dispatch: store.dispatch,
+            config: storeConfig,
+            routes,
+            getTabKey,
+            guards,
+            canClose: store.canClose,
+            canNavigate: store.canNavigate,
+            canAddTab: store.canAddTab,
+            scopes,
+            loaders,
+            loadTab,
+            prefetchTab,
+            parent,
+        }),
+        [store, storeConfig, routes, getTabKey, guards, scopes, loaders, loadTab, prefetchTab, parent]
+    );
 
     return (
-        <TabRouterContext.Provider value={value}>{children}</TabRouterContext.Provider>
+        <TabRouterContext.Provider value={value}>
+            {/* The parent's panel belongs to the parent's tabs; this router's panels provide their own */}
+            <TabPanelContext.Provider value={undefined}>{children}</TabPanelContext.Provider>
+        </TabRouterContext.Provider>
     );
 };
 
-export const useTabRouterContext = (): TabRouterContextValue => {
-    const context = useContext(TabRouterContext);
+// Select the router for a scope
+const resolveScope = (context: TabRouterContextValue | undefined, scope: RouterScope, hook: string) => {
     if (context === undefined) {
-        throw new Error("useTabRouterContext must be used within a TabRouterProvider");
+        throw new Error(`${hook} must be used within a TabRouterProvider`);
+    }
+    if (scope === "parent") {
+        if (!context.parent) {
+            throw new Error(`${hook} with scope "parent" must be used within a nested TabRouterProvider`);
+        }
+        return context.parent;
+    }
+    if (scope === "root") {
+        let root = context;
+        while (root.parent) {
+            root = root.parent;
+        }
+        return root;
     }
     return context;
 };
 
+/**
+ * Access a router's context
+ * `scope` selects the nearest router (default), the router enclosing it
+ * ("parent") or the outermost router ("root"). The component re-renders on
+ * every state change; use useTabSelector to read a slice of the state
+ */
+export const useTabRouterContext = (
+    scope: RouterScope = "nearest"
+): TabRouterContextValue & { state: TabsState; isHydrating: boolean } => {
+    const context = resolveScope(useContext(TabRouterContext), scope, "useTabRouterContext");
+    const { store } = context;
+    const state = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+    const isHydrating = useSyncExternalStore(store.subscribe, store.isHydrating, store.isHydrating);
+    return { ...context, state, isHydrating };
+};
+
+/**
+ * Access a router's context without subscribing to its state
+ * For components that select their own slice with useTabSelector
+ */
+export const useTabRouterValue = (scope: RouterScope = "nearest"): TabRouterContextValue =>
+    resolveScope(useContext(TabRouterContext), scope, "useTabRouterValue");
+
+/**
+ * Access a router's store without subscribing to its state
+ * e.g. to hand it to code outside React or to call its navigation methods
+ */
+export const useTabStore = (scope: RouterScope = "nearest"): TabStore =>
+    resolveScope(useContext(TabRouterContext), scope, "useTabStore").store;
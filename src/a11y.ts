@@ -0,0 +1,6 @@
+// Element ids linking tabs in a TabBar to their panels in TabPanels
+export const DEFAULT_ID_PREFIX = "tabrouter";
+
+export const getTabElementId = (idPrefix: string, tabId: string): string => `${idPrefix}-tab-${tabId}`;
+
+export const getPanelElementId = (idPrefix: string, tabId: string): string => `${idPrefix}-panel-${tabId}`;
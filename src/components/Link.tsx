@@ -1,16 +1,23 @@
-import React, { MouseEvent, ReactNode, useCallback, useMemo } from "react";
-import { useTabRouter } from "../hooks/useTabRouter";
-import { Tab } from "../types";
+import React, { FocusEvent, MouseEvent, ReactNode, useCallback, useEffect, useMemo, useRef } from "react";
+import { useTabSelector } from "../hooks/useTabSelector";
+import { useTabRouterValue } from "../TabRouterProvider";
+import { buildHref, parseHref } from "../url";
+import { createTab } from "../tabIdentity";
+import { matchRoutes, resolveTab } from "../routeMatcher";
+import { preloadRoute } from "../lazy";
+import { TabParams, TabsState } from "../types";
 
 export interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, "href" | "onClick"> {
-    href: string | { path: string; params?: Record<string, string | number> };
+    href: string | { path: string; params?: TabParams; hash?: string };
     replace?: boolean;
     children: ReactNode;
     onClick?: (e: MouseEvent<HTMLAnchorElement>) => void;
-    prefetch?: boolean; // Reserved for future use
+    prefetch?: boolean; // Run the target's route loader on hover, focus or when the link scrolls into view
     scroll?: boolean; // Reserved for future use
 }
 
+const selectActivePath = (state: TabsState) => state.tabs[state.active_index]?.path || "/";
+
 /**
  * Link component similar to Next.js Link
  * 
@@ -18,11 +25,14 @@ export interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorEle
  * - If target="_blank", uses push (opens new tab in router, not browser)
  * - If replace={true}, uses replace (replaces current tab)
  * - Otherwise, uses push (opens new tab if path doesn't exist, or switches to existing tab)
- * - Supports query params in href string or as object
- * - Supports hash in href
+ * - Supports query params in href string or as object, encoded with the configured query codec
+ * - Supports hash in href; it is stored on the tab
  * - Supports relative and absolute paths
  * - All standard anchor tag props are supported (except target is handled internally)
  * - All navigation happens within the router - no browser tabs are opened
+ * - Hovering preloads the target's lazy route component
+ * - With prefetch={true}, the target route's loader also runs on hover, focus or
+ *   when the link becomes visible
  */
 export const Link: React.FC<LinkProps> = ({
     href,
@@ -34,64 +44,45 @@ export const Link: React.FC<LinkProps> = ({
     scroll,
     className,
     style,
+    onMouseEnter,
+    onFocus,
     ...rest
 }) => {
-    const { push, replace: replaceTab, switchToPath, pathname, tabs } = useTabRouter();
+    // Only the active path and the matching tab are read, so links do not re-render on every tab change
+    const { store, getTabKey, config, routes, prefetchTab } = useTabRouterValue();
+    const anchorRef = useRef<HTMLAnchorElement>(null);
 
     // Parse href to extract path, query params, and hash
     const parsedHref = useMemo(() => {
         if (typeof href === "object") {
-            // Object format: { path: "/users", params: { id: "123" } }
+            // Object format: { path: "/users", params: { id: "123" }, hash: "#section" }
             return {
                 path: href.path,
                 params: href.params || {},
-                hash: "",
+                hash: href.hash || "",
             };
         }
 
         // String format: "/users?id=123#section"
-        // Handle relative paths manually to avoid URL constructor issues
-        let path = href;
-        let hash = "";
-        let searchString = "";
-
-        // Extract hash first (it comes last)
-        const hashIndex = href.indexOf("#");
-        if (hashIndex !== -1) {
-            hash = href.substring(hashIndex);
-            path = href.substring(0, hashIndex);
-        }
-
-        // Extract query string
-        const queryIndex = path.indexOf("?");
-        if (queryIndex !== -1) {
-            searchString = path.substring(queryIndex + 1);
-            path = path.substring(0, queryIndex);
-        }
-
-        // Parse query params
-        const params: Record<string, string | number> = {};
-        if (searchString) {
-            const urlParams = new URLSearchParams(searchString);
-            urlParams.forEach((value, key) => {
-                // Try to parse as number if possible
-                const numValue = Number(value);
-                params[key] = isNaN(numValue) ? value : numValue;
-            });
-        }
+        return parseHref(href, config.queryCodec);
+    }, [href, config.queryCodec]);
 
-        return { path, params, hash };
-    }, [href]);
-
-    // Check if tab already exists
-    const tabExists = useMemo(() => {
-        return tabs.some((tab) => tab.path === parsedHref.path);
-    }, [tabs, parsedHref.path]);
+    // Find an open tab with the same identity
+    const targetKey = useMemo(
+        () => getTabKey(resolveTab(createTab({ path: parsedHref.path, params: parsedHref.params }), routes)),
+        [getTabKey, parsedHref, routes]
+    );
+    const selectExistingTabId = useCallback(
+        (state: TabsState) => state.tabs.find((tab) => getTabKey(tab) === targetKey)?.id,
+        [getTabKey, targetKey]
+    );
+    const existingTabId = useTabSelector(selectExistingTabId);
+    const pathname = useTabSelector(selectActivePath);
 
     // Determine if we should switch to existing tab or navigate
     const shouldSwitchToExisting = useMemo(() => {
-        return tabExists && !replace && target !== "_blank";
-    }, [tabExists, replace, target]);
+        return !!existingTabId && !replace && target !== "_blank";
+    }, [existingTabId, replace, target]);
 
     const handleClick = useCallback(
         (e: MouseEvent<HTMLAnchorElement>) => {
@@ -110,29 +101,32 @@ export const Link: React.FC<LinkProps> = ({
 
             // If target="_blank", use push to open new tab in router (not browser tab)
             if (target === "_blank") {
-                push({
+                store.push({
                     path: parsedHref.path,
                     params: parsedHref.params,
+                    hash: parsedHref.hash || undefined,
                 });
                 return;
             }
 
             // If tab exists and we're not replacing, switch to it
-            if (shouldSwitchToExisting) {
-                switchToPath(parsedHref.path);
+            if (shouldSwitchToExisting && existingTabId) {
+                store.switchToTab(existingTabId);
                 return;
             }
 
             // Navigate using push or replace
             if (replace) {
-                replaceTab({
+                store.replace({
                     path: parsedHref.path,
                     params: parsedHref.params,
+                    hash: parsedHref.hash || undefined,
                 });
             } else {
-                push({
+                store.push({
                     path: parsedHref.path,
                     params: parsedHref.params,
+                    hash: parsedHref.hash || undefined,
                 });
             }
 
@@ -151,26 +145,64 @@ export const Link: React.FC<LinkProps> = ({
             onClick,
             target,
             shouldSwitchToExisting,
+            existingTabId,
             replace,
-            push,
-            replaceTab,
-            switchToPath,
+            store,
             parsedHref,
         ]
     );
 
+    // Prefetch the target's lazy component and data; loads already cached or in flight are reused
+    const prefetchTarget = useCallback(() => {
+        if (prefetch) {
+            prefetchTab(createTab({ path: parsedHref.path, params: parsedHref.params }));
+        }
+    }, [prefetch, prefetchTab, parsedHref]);
+
+    // Lazy route components are preloaded on hover even without prefetch
+    const handleMouseEnter = useCallback(
+        (e: MouseEvent<HTMLAnchorElement>) => {
+            onMouseEnter?.(e);
+            if (prefetch) {
+                prefetchTarget();
+            } else {
+                preloadRoute(matchRoutes(routes, parsedHref.path)?.route);
+            }
+        },
+        [onMouseEnter, prefetch, prefetchTarget, routes, parsedHref.path]
+    );
+
+    const handleFocus = useCallback(
+        (e: FocusEvent<HTMLAnchorElement>) => {
+            onFocus?.(e);
+            prefetchTarget();
+        },
+        [onFocus, prefetchTarget]
+    );
+
+    // Prefetch once the link scrolls into view
+    useEffect(() => {
+        const anchor = anchorRef.current;
+        if (!prefetch || !anchor || typeof IntersectionObserver === "undefined") {
+            return;
+        }
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                observer.disconnect();
+                prefetchTarget();
+            }
+        });
+        observer.observe(anchor);
+        return () => observer.disconnect();
+    }, [prefetch, prefetchTarget]);
+
     // Build the href attribute for the anchor tag
     const hrefString = useMemo(() => {
         if (typeof href === "object") {
-            const path = href.path;
-            const params = href.params || {};
-            const queryString = Object.entries(params)
-                .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
-                .join("&");
-            return queryString ? `${path}?${queryString}` : path;
+            return buildHref(href.path, href.params, href.hash, config.queryCodec);
         }
         return href;
-    }, [href]);
+    }, [href, config.queryCodec]);
 
     // Determine if link is active
     const isActive = useMemo(() => {
@@ -179,8 +211,11 @@ export const Link: React.FC<LinkProps> = ({
 
     return (
         <a
+            ref={anchorRef}
             href={hrefString}
             onClick={handleClick}
+            onMouseEnter={handleMouseEnter}
+            onFocus={handleFocus}
             className={className}
             style={style}
             aria-current={isActive ? "page" : undefined}
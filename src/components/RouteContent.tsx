@@ -0,0 +1,29 @@
+import React, { ReactNode, useMemo } from "react";
+import { RouteMatch, Tab } from "../types";
+import { getParamsError } from "../routeMatcher";
+
+interface RouteContentProps {
+    tab: Tab;
+    match: RouteMatch;
+    fallback?: ReactNode;
+}
+
+/**
+ * Renders a tab's matched route component
+ * When the tab's params fail the route's schema, the route's `errorComponent`
+ * is rendered instead, or `fallback` if the route has none
+ */
+export const RouteContent: React.FC<RouteContentProps> = ({ tab, match, fallback = null }) => {
+    const { route, params } = match;
+    const error = useMemo(() => getParamsError(route, tab), [route, tab]);
+
+    if (error) {
+        const ErrorComponent = route.errorComponent;
+        return ErrorComponent ? <ErrorComponent tab={tab} route={route} error={error} /> : <>{fallback}</>;
+    }
+
+    const Component = route.component;
+    return <Component tab={tab} params={params} route={route} />;
+};
+
+RouteContent.displayName = "RouteContent";
@@ -0,0 +1,83 @@
+import React, { ReactNode } from "react";
+import {
+    useTabBar,
+    UseTabBarOptions,
+    UseTabBarReturn,
+    TabBarButtonProps,
+    TabBarElementProps,
+} from "../hooks/useTabBar";
+import { Tab } from "../types";
+
+export interface TabRenderState {
+    isActive: boolean;
+    isFocused: boolean;
+    isClosable: boolean;
+    isDragging: boolean;
+    dropPosition: "before" | "after" | null;
+    tabProps: TabBarElementProps;
+    closeButtonProps: TabBarButtonProps;
+}
+
+export interface TabBarProps extends UseTabBarOptions {
+    renderTab?: (tab: Tab, state: TabRenderState) => ReactNode;
+    renderScrollButton?: (direction: "start" | "end", props: TabBarButtonProps) => ReactNode;
+    renderOverflowMenu?: (hiddenTabs: Tab[], tabBar: UseTabBarReturn) => ReactNode;
+    className?: string;
+    listClassName?: string;
+    "aria-label"?: string;
+}
+
+const defaultRenderTab = (tab: Tab, { tabProps, closeButtonProps, isClosable }: TabRenderState) => (
+    <div key={tab.id} {...tabProps}>
+        {tab.title ?? tab.path}
+        {isClosable && <button {...closeButtonProps}>×</button>}
+    </div>
+);
+
+/**
+ * TabBar component - headless, unstyled tab strip built on `useTabBar()`
+ *
+ * Features:
+ * - Accessible tabs with keyboard navigation, Delete and middle-click to close
+ * - `renderTab` controls the markup of each tab and its close button
+ * - Scroll buttons and an overflow menu are rendered only while tabs overflow
+ * - Drag-and-drop reordering; `renderTab` receives the drop indicator position
+ * - No styles; use `className`/`listClassName` or your own markup
+ */
+export const TabBar: React.FC<TabBarProps> = ({
+    renderTab = defaultRenderTab,
+    renderScrollButton,
+    renderOverflowMenu,
+    className,
+    listClassName,
+    "aria-label": ariaLabel,
+    ...options
+}) => {
+    const tabBar = useTabBar(options);
+    const { tabs, activeTabId, focusedTabId, canScrollStart, canScrollEnd, hiddenTabs } = tabBar;
+    const isOverflowing = canScrollStart || canScrollEnd;
+
+    return (
+        <div className={className}>
+            {isOverflowing && renderScrollButton?.("start", tabBar.getScrollButtonProps("start"))}
+            <div {...tabBar.getTabListProps()} aria-label={ariaLabel} className={listClassName}>
+                {tabs.map((tab) =>
+                    renderTab(tab, {
+                        isActive: tab.id === activeTabId,
+                        isFocused: tab.id === focusedTabId,
+                        isClosable: tabBar.isClosable(tab),
+                        isDragging: tabBar.drag?.tabId === tab.id,
+                        dropPosition: tabBar.getDropPosition(tab),
+                        tabProps: tabBar.getTabProps(tab),
+                        closeButtonProps: tabBar.getCloseButtonProps(tab),
+                    })
+                )}
+            </div>
+            {isOverflowing && renderScrollButton?.("end", tabBar.getScrollButtonProps("end"))}
+            {hiddenTabs.length > 0 && renderOverflowMenu?.(hiddenTabs, tabBar)}
+            <div {...tabBar.getLiveRegionProps()} />
+        </div>
+    );
+};
+
+TabBar.displayName = "TabBar";
@@ -0,0 +1,65 @@
+import React, { Component, ReactNode, Suspense } from "react";
+import { RouteDefinition, Tab } from "../types";
+
+interface TabBoundaryProps {
+    tab: Tab;
+    route?: RouteDefinition;
+    loadingFallback?: ReactNode;
+    children: ReactNode;
+}
+
+interface TabBoundaryState {
+    error: Error | null;
+}
+
+// Catches errors thrown while rendering one tab so the other tabs keep working
+class TabErrorBoundary extends Component<TabBoundaryProps, TabBoundaryState> {
+    state: TabBoundaryState = { error: null };
+
+    static getDerivedStateFromError(error: unknown): TabBoundaryState {
+        return { error: error instanceof Error ? error : new Error(String(error)) };
+    }
+
+    componentDidUpdate(previous: TabBoundaryProps) {
+        // Navigating the tab elsewhere clears the error
+        if (this.state.error && (previous.tab.path !== this.props.tab.path || previous.route !== this.props.route)) {
+            this.setState({ error: null });
+        }
+    }
+
+    retry = () => this.setState({ error: null });
+
+    render() {
+        const { tab, route, children } = this.props;
+        const { error } = this.state;
+        if (!error) {
+            return children;
+        }
+
+        const ErrorComponent = route?.errorComponent;
+        if (ErrorComponent && route) {
+            return <ErrorComponent tab={tab} route={route} error={error} retry={this.retry} />;
+        }
+        return (
+            <div role="alert">
+                <p>{error.message}</p>
+                <button type="button" onClick={this.retry}>
+                    Retry
+                </button>
+            </div>
+        );
+    }
+}
+
+/**
+ * Error boundary and Suspense boundary of one tab
+ * A tab whose component throws shows its route's `errorComponent` (or an
+ * inline error) with a retry, and a lazy component suspends only its own tab
+ */
+export const TabBoundary: React.FC<TabBoundaryProps> = ({ tab, route, loadingFallback = null, children }) => (
+    <TabErrorBoundary tab={tab} route={route}>
+        <Suspense fallback={loadingFallback}>{children}</Suspense>
+    </TabErrorBoundary>
+);
+
+TabBoundary.displayName = "TabBoundary";
@@ -0,0 +1,53 @@
+import React, { ReactNode, useMemo } from "react";
+import { useTabRouterContext } from "../TabRouterProvider";
+import { matchRoutes } from "../routeMatcher";
+import { TabPanelContext } from "../hooks/useTabVisibility";
+import { getGroups } from "../tabGroups";
+import { RouteContent } from "./RouteContent";
+import { TabBoundary } from "./TabBoundary";
+
+export interface TabOutletProps {
+    fallback?: ReactNode;
+    loadingFallback?: ReactNode;
+    groupId?: string;
+}
+
+/**
+ * TabOutlet component - renders the route component matching the active tab
+ *
+ * Features:
+ * - Matches the active tab's path against the provider's `routes`
+ * - Passes the tab, the matched route and its path params to the component
+ * - Renders `fallback` when no route matches (not-found)
+ * - Renders the route's `errorComponent` when the tab's params fail its schema
+ * - With `groupId`, renders the active tab of one split view group
+ * - Renders `loadingFallback` while a lazy route component loads
+ * - Errors thrown by the route component show the route's `errorComponent`
+ *   (or an inline error) with a retry
+ */
+export const TabOutlet: React.FC<TabOutletProps> = ({ fallback = null, loadingFallback = null, groupId }) => {
+    const { state, routes } = useTabRouterContext();
+    const activeTabId =
+        groupId === undefined
+            ? state.tabs?.[state.active_index]?.id
+            : getGroups(state).find((group) => group.id === groupId)?.active_tab_id;
+    const activeTab = state.tabs?.find((tab) => tab.id === activeTabId) || null;
+
+    const match = useMemo(() => {
+        return activeTab ? matchRoutes(routes, activeTab.path) : null;
+    }, [routes, activeTab?.path]);
+
+    if (!activeTab || !match) {
+        return <>{fallback}</>;
+    }
+
+    return (
+        <TabPanelContext.Provider value={{ tab: activeTab, isActive: true, isFrozen: false }}>
+            <TabBoundary key={activeTab.id} tab={activeTab} route={match.route} loadingFallback={loadingFallback}>
+                <RouteContent tab={activeTab} match={match} fallback={fallback} />
+            </TabBoundary>
+        </TabPanelContext.Provider>
+    );
+};
+
+TabOutlet.displayName = "TabOutlet";
@@ -0,0 +1,111 @@
+import React, { ReactNode, useEffect, useMemo, useRef } from "react";
+import { useTabRouterContext } from "../TabRouterProvider";
+import { TabPanelContext, TabVisibility } from "../hooks/useTabVisibility";
+import { matchRoutes } from "../routeMatcher";
+import { Tab } from "../types";
+import { DEFAULT_ID_PREFIX, getPanelElementId, getTabElementId } from "../a11y";
+import { getGroups, getGroupTabs } from "../tabGroups";
+import { RouteContent } from "./RouteContent";
+import { TabBoundary } from "./TabBoundary";
+
+export interface TabPanelsProps {
+    children?: (tab: Tab) => ReactNode;
+    fallback?: ReactNode;
+    loadingFallback?: ReactNode;
+    max?: number;
+    className?: string;
+    panelClassName?: string;
+    idPrefix?: string;
+    groupId?: string;
+}
+
+/**
+ * TabPanels component - keep-alive rendering of open tabs
+ *
+ * Features:
+ * - Each open tab keeps its own mounted subtree, hidden while inactive
+ * - Component state, scroll position and fetched data survive tab switches
+ * - At most `max` panels stay mounted; the least recently used are unmounted
+ * - Renders `children(tab)` if provided, otherwise the matching route component
+ * - Panels can read their visibility with `useTabVisibility()`
+ * - Panels are labelled by the matching tabs of a TabBar with the same `idPrefix`
+ * - With `groupId`, renders the tabs of one split view group, showing its active tab
+ * - Each panel has its own Suspense and error boundary, so a lazy or failing
+ *   tab never affects the other panels
+ */
+export const TabPanels: React.FC<TabPanelsProps> = ({
+    children,
+    fallback = null,
+    loadingFallback = null,
+    max = Infinity,
+    className,
+    panelClassName,
+    idPrefix = DEFAULT_ID_PREFIX,
+    groupId,
+}) => {
+    const { state, routes } = useTabRouterContext();
+    const group = groupId === undefined ? undefined : getGroups(state).find((g) => g.id === groupId);
+    const tabs = useMemo(
+        () => (groupId === undefined ? state.tabs : getGroupTabs(state, group)),
+        [state, group, groupId]
+    );
+    const activeTab =
+        (groupId === undefined
+            ? state.tabs?.[state.active_index]
+            : tabs.find((tab) => tab.id === group?.active_tab_id)) || null;
+    const recentIds = useRef<string[]>([]);
+
+    // Most recently used first, limited to open tabs and the `max` cap
+    // Derived without touching the ref, so renders React discards leave the order alone
+    const recentOrder = useMemo(() => {
+        const openIds = new Set(tabs.map((tab) => tab.id));
+        const recent = recentIds.current.filter(
+            (id) => openIds.has(id) && id !== activeTab?.id
+        );
+        if (activeTab) {
+            recent.unshift(activeTab.id);
+        }
+        return recent.slice(0, Math.max(1, max));
+    }, [tabs, activeTab, max]);
+    const mountedIds = useMemo(() => new Set(recentOrder), [recentOrder]);
+
+    // Keep the order only once the render that produced it has been committed
+    useEffect(() => {
+        recentIds.current = recentOrder;
+    }, [recentOrder]);
+
+    return (
+        <div className={className}>
+            {tabs
+                .filter((tab) => mountedIds.has(tab.id))
+                .map((tab) => {
+                    const isActive = tab.id === activeTab?.id;
+                    const visibility: TabVisibility = { tab, isActive, isFrozen: !isActive };
+                    const match = matchRoutes(routes, tab.path);
+
+                    return (
+                        <div
+                            key={tab.id}
+                            id={getPanelElementId(idPrefix, tab.id)}
+                            role="tabpanel"
+                            aria-labelledby={getTabElementId(idPrefix, tab.id)}
+                            hidden={!isActive}
+                            className={panelClassName}
+                        >
+                            <TabPanelContext.Provider value={visibility}>
+                                <TabBoundary tab={tab} route={match?.route} loadingFallback={loadingFallback}>
+                                    {children
+                                        ? children(tab)
+                                        : match
+                                            ? <RouteContent tab={tab} match={match} fallback={fallback} />
+                                            : fallback}
+                                </TabBoundary>
+                            </TabPanelContext.Provider>
+                        </div>
+                    );
+                })}
+        </div>
+    );
+};
+
+TabPanels.displayName = "TabPanels";
@@ -0,0 +1,217 @@
+import React, { ComponentType, useCallback, useMemo } from "react";
+import { Link, LinkProps } from "./components/Link";
+import { useTabRouter, UseTabRouterReturn } from "./hooks/useTabRouter";
+import { useRouter, UseRouterReturn } from "./hooks/useRouter";
+import { useTabs, UseTabsReturn } from "./hooks/useTabs";
+import { generatePath, matchRoutes } from "./routeMatcher";
+import {
+    ParamValue,
+    ParamsSchema,
+    RouteComponentProps,
+    RouteDefinition,
+    RouterScopeOptions,
+    Tab,
+    TabParams,
+} from "./types";
+
+export type QueryParams = Record<string, ParamValue | undefined>;
+
+// Carries a route's query type; it has no runtime value
+export interface QueryDeclaration<TQuery extends QueryParams> {
+    readonly __query?: TQuery;
+}
+
+/**
+ * Declare the query params of a typed route
+ * `{ component: UserPage, query: defineQuery<{ tab?: "profile" | "posts" }>() }`
+ */
+export const defineQuery = <TQuery extends QueryParams>(): QueryDeclaration<TQuery> => ({});
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type SegmentParams<S extends string> = S extends `:${infer Name}?`
+    ? { [K in Name]?: string }
+    : S extends `:${infer Name}`
+        ? { [K in Name]: string }
+        : S extends `*${infer Name}`
+            ? { [K in Name extends "" ? "*" : Name]?: string }
+            : {};
+
+type SegmentsParams<P extends string> = P extends `${infer Head}/${infer Rest}`
+    ? SegmentParams<Head> & SegmentsParams<Rest>
+    : SegmentParams<P>;
+
+// Params declared by the `:segments` of a route pattern, e.g. `{ id: string }` for "/users/:id"
+export type PathParams<P extends string> = Simplify<SegmentsParams<P>>;
+
+type ParamValues<T> = { [K in keyof T]: string | number };
+
+type RequiredKeys<T> = { [K in keyof T]-?: {} extends Pick<T, K> ? never : K }[keyof T];
+
+export interface TypedRouteComponentProps<P extends string> extends Omit<RouteComponentProps, "params"> {
+    params: PathParams<P>;
+}
+
+export interface TypedRouteConfig<P extends string> {
+    component: ComponentType<TypedRouteComponentProps<P>>;
+    title?: string;
+    query?: QueryDeclaration<QueryParams>;
+    schema?: ParamsSchema;
+    errorComponent?: RouteDefinition["errorComponent"];
+    loader?: RouteDefinition["loader"];
+    staleTime?: number;
+}
+
+export type RouteMap<TRoutes> = { [P in keyof TRoutes & string]: TypedRouteConfig<P> };
+
+export type RoutePath<TRoutes> = keyof TRoutes & string;
+
+export type RouteQuery<TRoutes, P extends RoutePath<TRoutes>> = TRoutes[P] extends {
+    query: QueryDeclaration<infer TQuery>;
+}
+    ? TQuery
+    : QueryParams;
+
+// A navigation target: the route pattern, its params and its query
+export type RouteTo<TRoutes, P extends RoutePath<TRoutes> = RoutePath<TRoutes>> = P extends unknown
+    ? { path: P; query?: RouteQuery<TRoutes, P>; hash?: string } & (RequiredKeys<PathParams<P>> extends never
+        ? { params?: ParamValues<PathParams<P>> }
+        : { params: ParamValues<PathParams<P>> })
+    : never;
+
+// Routes without required params can be given as a plain string
+export type RouteHref<TRoutes> =
+    | RouteTo<TRoutes>
+    | { [P in RoutePath<TRoutes>]: RequiredKeys<PathParams<P>> extends never ? P : never }[RoutePath<TRoutes>];
+
+// The active tab's route, narrowed by comparing `path` with a route pattern
+export type ActiveRoute<TRoutes> = {
+    [P in RoutePath<TRoutes>]: {
+        path: P;
+        params: PathParams<P>;
+        query: Partial<RouteQuery<TRoutes, P>>;
+    };
+}[RoutePath<TRoutes>];
+
+export interface TypedTabRouterReturn<TRoutes> extends Omit<UseTabRouterReturn, "push" | "replace"> {
+    push: (to: RouteHref<TRoutes>) => Promise<boolean>;
+    replace: (to: RouteHref<TRoutes>) => Promise<boolean>;
+    route: ActiveRoute<TRoutes> | null;
+}
+
+export interface TypedRouterReturn<TRoutes> extends Omit<UseRouterReturn, "push" | "replace"> {
+    push: (to: RouteHref<TRoutes>) => Promise<boolean>;
+    replace: (to: RouteHref<TRoutes>) => Promise<boolean>;
+    route: ActiveRoute<TRoutes> | null;
+}
+
+export interface TypedTabsReturn<TRoutes> extends Omit<UseTabsReturn, "openTab"> {
+    openTab: (to: RouteHref<TRoutes>) => Promise<boolean>;
+}
+
+export interface TypedLinkProps<TRoutes> extends Omit<LinkProps, "href"> {
+    href: RouteHref<TRoutes>;
+}
+
+export interface TypedTabRouter<TRoutes> {
+    routes: RouteDefinition[];
+    useTabRouter: (options?: RouterScopeOptions) => TypedTabRouterReturn<TRoutes>;
+    useRouter: (options?: RouterScopeOptions) => TypedRouterReturn<TRoutes>;
+    useTabs: (options?: RouterScopeOptions) => TypedTabsReturn<TRoutes>;
+    Link: React.FC<TypedLinkProps<TRoutes>>;
+}
+
+// Resolve a typed target to the concrete path and the query kept as tab params
+const toLocation = (
+    to: string | { path: string; params?: Record<string, string | number>; query?: QueryParams; hash?: string }
+) => {
+    if (typeof to === "string") {
+        return { path: generatePath(to), params: {} };
+    }
+    const params: TabParams = {};
+    Object.entries(to.query || {}).forEach(([key, value]) => {
+        if (value !== undefined) {
+            params[key] = value;
+        }
+    });
+    return { path: generatePath(to.path, to.params), params, hash: to.hash };
+};
+
+// Split the active tab's params into the route's path params and its query
+const getActiveRoute = (routes: RouteDefinition[], tab: Tab | null) => {
+    const match = tab ? matchRoutes(routes, tab.path) : null;
+    if (!tab || !match) {
+        return null;
+    }
+    const query = { ...tab.params };
+    Object.keys(match.params).forEach((key) => delete query[key]);
+    return { path: match.route.path, params: match.params, query };
+};
+
+/**
+ * createTabRouter - Typed routes, hooks and Link for a route map
+ *
+ * Route patterns become a literal union, params are inferred from their
+ * `:segments` and query params from `defineQuery<...>()`, so a typo in a path
+ * or a missing param fails to compile. Pass `routes` to the TabRouterProvider.
+ *
+ * ```tsx
+ * export const { routes, useTabRouter, Link } = createTabRouter({
+ *     "/": { component: Home },
+ *     "/users/:id": { component: UserPage, query: defineQuery<{ tab?: "posts" }>() },
+ * });
+ * ```
+ */
+export const createTabRouter = <TRoutes extends RouteMap<TRoutes>>(routeMap: TRoutes): TypedTabRouter<TRoutes> => {
+    const routes: RouteDefinition[] = Object.keys(routeMap).map((path) => {
+        const route = routeMap[path as RoutePath<TRoutes>] as TypedRouteConfig<string>;
+        return {
+            path,
+            component: route.component as ComponentType<RouteComponentProps>,
+            title: route.title,
+            schema: route.schema,
+            errorComponent: route.errorComponent,
+            loader: route.loader,
+            staleTime: route.staleTime,
+        };
+    });
+
+    const useTypedTabRouter = (options?: RouterScopeOptions): TypedTabRouterReturn<TRoutes> => {
+        const router = useTabRouter(options);
+        const { push: pushLocation, replace: replaceLocation, active } = router;
+        const push = useCallback((to: RouteHref<TRoutes>) => pushLocation(toLocation(to)), [pushLocation]);
+        const replace = useCallback((to: RouteHref<TRoutes>) => replaceLocation(toLocation(to)), [replaceLocation]);
+        const route = useMemo(() => getActiveRoute(routes, active) as ActiveRoute<TRoutes> | null, [active]);
+        return { ...router, push, replace, route };
+    };
+
+    const useTypedRouter = (options?: RouterScopeOptions): TypedRouterReturn<TRoutes> => {
+        const router = useRouter(options);
+        const { push: pushLocation, replace: replaceLocation, active } = router;
+        const push = useCallback((to: RouteHref<TRoutes>) => pushLocation(toLocation(to)), [pushLocation]);
+        const replace = useCallback((to: RouteHref<TRoutes>) => replaceLocation(toLocation(to)), [replaceLocation]);
+        const route = useMemo(() => getActiveRoute(routes, active) as ActiveRoute<TRoutes> | null, [active]);
+        return { ...router, push, replace, route };
+    };
+
+    const useTypedTabs = (options?: RouterScopeOptions): TypedTabsReturn<TRoutes> => {
+        const tabs = useTabs(options);
+        const { openTab: openLocation } = tabs;
+        const openTab = useCallback((to: RouteHref<TRoutes>) => openLocation(toLocation(to)), [openLocation]);
+        return { ...tabs, openTab };
+    };
+
+    const TypedLink: React.FC<TypedLinkProps<TRoutes>> = ({ href, ...rest }) => {
+        const location = useMemo(() => toLocation(href), [href]);
+        return <Link {...rest} href={location} />;
+    };
+    TypedLink.displayName = "TypedLink";
+
+    return {
+        routes,
+        useTabRouter: useTypedTabRouter,
+        useRouter: useTypedRouter,
+        useTabs: useTypedTabs,
+        Link: TypedLink,
+    };
+};
@@ -0,0 +1,88 @@
+import { DevToolsOptions, TabsAction, TabsState } from "./types";
+
+interface DevToolsMessage {
+    type: string;
+    state?: string;
+    payload?: { type: string };
+}
+
+interface DevToolsConnection {
+    init: (state: unknown) => void;
+    send: (action: unknown, state: unknown) => void;
+    subscribe: (listener: (message: DevToolsMessage) => void) => (() => void) | void;
+}
+
+interface DevToolsExtension {
+    connect: (options: { name?: string; maxAge?: number }) => DevToolsConnection;
+}
+
+export interface DevTools {
+    record: (action: TabsAction, state: TabsState) => void;
+}
+
+/**
+ * Connect a store to the Redux DevTools extension
+ * Every action that reaches the reducer is logged with the resulting state.
+ * Jumping to an earlier state replaces the store's state through `travel`;
+ * Dates in params come back as ISO strings. Returns null without the extension
+ */
+export const connectDevTools = (
+    options: DevToolsOptions,
+    getState: () => TabsState,
+    travel: (state: TabsState) => void
+): DevTools | null => {
+    const extension =
+        typeof window === "undefined"
+            ? undefined
+            : (window as unknown as { __REDUX_DEVTOOLS_EXTENSION__?: DevToolsExtension }).__REDUX_DEVTOOLS_EXTENSION__;
+    if (!extension) {
+        return null;
+    }
+
+    const connection = extension.connect({ name: options.name ?? "tabrouter", maxAge: options.maxAge });
+    const initialState = getState();
+    connection.init(initialState);
+
+    const parse = (state: string | undefined): TabsState | null => {
+        try {
+            return state ? (JSON.parse(state) as TabsState) : null;
+        } catch {
+            return null;
+        }
+    };
+
+    connection.subscribe((message) => {
+        if (message.type !== "DISPATCH" || !message.payload) {
+            return;
+        }
+        switch (message.payload.type) {
+            case "JUMP_TO_STATE":
+            case "JUMP_TO_ACTION": {
+                const state = parse(message.state);
+                if (state) {
+                    travel(state);
+                }
+                break;
+            }
+            case "RESET":
+                travel(initialState);
+                connection.init(initialState);
+                break;
+            case "COMMIT":
+                connection.init(getState());
+                break;
+            case "ROLLBACK": {
+                const state = parse(message.state);
+                if (state) {
+                    travel(state);
+                    connection.init(state);
+                }
+                break;
+            }
+        }
+    });
+
+    return {
+        record: (action, state) => connection.send(action, state),
+    };
+};
@@ -0,0 +1,41 @@
+import { Tab, TabRouterConfig, TabsState } from "./types";
+
+// Least recently used first; tabs that were never activated count as the least recently used
+const byLeastRecentlyUsed = (state: TabsState) => {
+    const mru = state.mru || [];
+    const rank = (tab: Tab) => {
+        const index = mru.indexOf(tab.id);
+        return index === -1 ? Infinity : index;
+    };
+    return (a: Tab, b: Tab) => rank(b) - rank(a) || 0;
+};
+
+/**
+ * Pick the tabs to evict so that `adding` more tabs fit within `maxTabs`
+ * The active tab, pinned and dirty tabs and tabs that `keep` protects, e.g.
+ * the ones with a blocking guard, are never evicted. Returns null when the new
+ * tabs must be rejected, either by policy or because nothing can be evicted
+ */
+export const findEvictionCandidates = (
+    state: TabsState,
+    config: Required<TabRouterConfig>,
+    keep: (tab: Tab) => boolean = () => false,
+    adding = 1
+): Tab[] | null => {
+    const excess = state.tabs.length + adding - config.maxTabs;
+    if (excess <= 0) {
+        return [];
+    }
+    if (config.evictionPolicy === "reject") {
+        return null;
+    }
+
+    const activeTab = state.tabs[state.active_index];
+    // "oldest" relies on new tabs opening at the end of the bar
+    const candidates = state.tabs.filter((tab) => !tab.pinned && !tab.dirty && tab !== activeTab && !keep(tab));
+    if (config.evictionPolicy === "lru") {
+        candidates.sort(byLeastRecentlyUsed(state));
+    }
+
+    return candidates.length >= excess ? candidates.slice(0, excess) : null;
+};
@@ -0,0 +1,76 @@
+import { NavigationEvent, Tab, TabRouterConfig } from "./types";
+
+export interface TabGuard {
+    shouldBlock: () => boolean;
+    getMessage: () => string;
+}
+
+export interface GuardRegistry {
+    register: (tabId: string, guard: TabGuard) => () => void;
+    getBlocking: (tabIds: string[]) => TabGuard[];
+    hasBlocking: () => boolean;
+}
+
+// Registry of the guards that tab content registered with useTabGuard
+export const createGuardRegistry = (): GuardRegistry => {
+    const guards = new Map<string, Set<TabGuard>>();
+
+    return {
+        register: (tabId, guard) => {
+            const tabGuards = guards.get(tabId) || new Set<TabGuard>();
+            tabGuards.add(guard);
+            guards.set(tabId, tabGuards);
+            return () => {
+                tabGuards.delete(guard);
+                if (tabGuards.size === 0 && guards.get(tabId) === tabGuards) {
+                    guards.delete(tabId);
+                }
+            };
+        },
+        getBlocking: (tabIds) =>
+            tabIds.flatMap((tabId) => Array.from(guards.get(tabId) || [])).filter((guard) => guard.shouldBlock()),
+        hasBlocking: () =>
+            Array.from(guards.values()).some((tabGuards) =>
+                Array.from(tabGuards).some((guard) => guard.shouldBlock())
+            ),
+    };
+};
+
+export interface GuardChecks {
+    canClose: (tabs: Tab[]) => Promise<boolean>;
+    canNavigate: (event: NavigationEvent) => Promise<boolean>;
+}
+
+/**
+ * Create the checks run before destructive operations
+ * Tab guards ask for confirmation first, then the global config callbacks decide
+ */
+export const createGuardChecks = (
+    registry: GuardRegistry,
+    config: Required<TabRouterConfig>
+): GuardChecks => {
+    const confirmGuards = async (tabIds: string[]): Promise<boolean> => {
+        for (const guard of registry.getBlocking(tabIds)) {
+            if (!(await config.confirm(guard.getMessage()))) {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    return {
+        canClose: async (tabs) => {
+            if (!(await confirmGuards(tabs.map((tab) => tab.id)))) {
+                return false;
+            }
+            return config.beforeClose(tabs);
+        },
+        canNavigate: async (event) => {
+            // Opening a tab keeps the current one, so only in-tab navigation discards content
+            if (event.type !== "push" && event.from && !(await confirmGuards([event.from.id]))) {
+                return false;
+            }
+            return config.beforeNavigate(event);
+        },
+    };
+};
@@ -0,0 +1,15 @@
+import { useContext, useState } from "react";
+import { useTabRouterContext } from "../TabRouterProvider";
+import { TabPanelContext } from "./useTabVisibility";
+
+/**
+ * Id of the tab a component belongs to
+ * Inside TabPanels/TabOutlet this is the panel's tab, elsewhere the tab
+ * that was active when the component mounted
+ */
+export const useEnclosingTabId = (): string | undefined => {
+    const { state } = useTabRouterContext();
+    const panel = useContext(TabPanelContext);
+    const [mountedTabId] = useState(() => state.tabs[state.active_index]?.id);
+    return panel?.tab.id ?? mountedTabId;
+};
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef } from "react";
+import { TabRouterConfig, TabsState } from "../types";
+import { writeState } from "../persistence";
+
+/**
+ * usePersistence hook - Debounced writes of the tab state to the storage adapter
+ * Used internally by TabRouterProvider; disabled while an async adapter hydrates
+ * so the initial state does not overwrite the stored one
+ */
+export const usePersistence = (
+    enabled: boolean,
+    state: TabsState,
+    config: Required<TabRouterConfig>
+) => {
+    const configRef = useRef(config);
+    const pendingState = useRef<TabsState | null>(null);
+    configRef.current = config;
+
+    const flush = useCallback(() => {
+        if (pendingState.current) {
+            writeState(configRef.current, pendingState.current);
+            pendingState.current = null;
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+        pendingState.current = state;
+        const timer = setTimeout(flush, configRef.current.persistDebounce);
+        return () => clearTimeout(timer);
+    }, [enabled, state, flush]);
+
+    // Flush pending writes when the page is hidden or the provider unmounts
+    useEffect(() => {
+        if (typeof window === "undefined") {
+            return flush;
+        }
+        window.addEventListener("pagehide", flush);
+        return () => {
+            window.removeEventListener("pagehide", flush);
+            flush();
+        };
+    }, [flush]);
+};
@@ -1,11 +1,18 @@
 import { useTabRouter } from "./useTabRouter";
+import { useTabs } from "./useTabs";
+import { useTabRouterContext } from "../TabRouterProvider";
+import { createTab } from "../tabIdentity";
+import { toTabInput } from "../url";
+import { RouterScopeOptions, TabParams } from "../types";
 
 /**
  * useRouter hook - Similar to Next.js useRouter
  * Provides router methods and current route information
  */
-export const useRouter = () => {
-    const router = useTabRouter();
+export const useRouter = (options: RouterScopeOptions = {}) => {
+    const router = useTabRouter(options);
+    const { closedTabs, reopenLastClosed, reopenClosed } = useTabs(options);
+    const { config, loadTab, prefetchTab } = useTabRouterContext(options.scope);
 
     return {
         // Route information
@@ -16,33 +23,31 @@ export const useRouter = () => {
         // Navigation methods
         push: router.push,
         replace: router.replace,
-        back: () => {
-            // Go back to previous tab
-            if (router.active_index > 0) {
-                router.switchToPath(router.tabs[router.active_index - 1]?.path || "/");
-            }
-        },
-        reload: () => {
-            // Reload current tab (switch to same path)
-            if (router.active?.path) {
-                router.switchToPath(router.active.path);
-            }
-        },
-        prefetch: () => {
-            // Reserved for future use - prefetch functionality
-            // Could preload tab data here
-        },
+        back: () => router.go(-1),
+        forward: () => router.go(1),
+        go: router.go,
+        canGoBack: router.canGoBack,
+        canGoForward: router.canGoForward,
+        // Re-run the active tab's route loader
+        reload: () => (router.active ? loadTab(router.active, { force: true }) : Promise.resolve()),
+        // Load the lazy component and run the route loader of a tab before it is opened
+        prefetch: (url: string | { path: string; params?: TabParams; hash?: string }) =>
+            prefetchTab(createTab(toTabInput(url, config.queryCodec))),
 
         // Tab-specific methods
         closePath: router.closePath,
         closeOthers: router.closeOthers,
         switchToPath: router.switchToPath,
         reorderTabs: router.reorderTabs,
+        closedTabs,
+        reopenLastClosed,
+        reopenClosed,
 
         // Additional state
         active: router.active,
         active_index: router.active_index,
         tabs: router.tabs,
+        isHydrating: router.isHydrating,
     };
 };
 
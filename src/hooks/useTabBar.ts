@@ -0,0 +1,527 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useTabs } from "./useTabs";
+import { useTabGroup } from "./useTabGroup";
+import { Tab } from "../types";
+import { DEFAULT_ID_PREFIX, getPanelElementId, getTabElementId } from "../a11y";
+import { clampToPinnedGroup } from "../tabMeta";
+import { DEFAULT_GROUP_ID } from "../tabGroups";
+
+export interface UseTabBarOptions {
+    orientation?: "horizontal" | "vertical";
+    activationMode?: "automatic" | "manual";
+    isClosable?: (tab: Tab, tabs: Tab[]) => boolean;
+    idPrefix?: string;
+    reorderable?: boolean;
+    groupId?: string;
+}
+
+export interface TabBarElementProps extends React.HTMLAttributes<HTMLElement> {
+    ref: (element: HTMLElement | null) => void;
+}
+
+export interface TabBarButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+    type: "button";
+}
+
+export interface TabBarLiveRegionProps extends React.HTMLAttributes<HTMLElement> {
+    children: string;
+}
+
+export interface TabDragState {
+    tabId: string;
+    fromIndex: number;
+    toIndex: number;
+}
+
+export interface UseTabBarReturn {
+    tabs: Tab[];
+    activeTabId?: string;
+    focusedTabId?: string;
+    canScrollStart: boolean;
+    canScrollEnd: boolean;
+    hiddenTabs: Tab[];
+    drag: TabDragState | null;
+    getDropPosition: (tab: Tab) => "before" | "after" | null;
+    getTabListProps: () => TabBarElementProps;
+    getTabProps: (tab: Tab) => TabBarElementProps;
+    getCloseButtonProps: (tab: Tab) => TabBarButtonProps;
+    getScrollButtonProps: (direction: "start" | "end") => TabBarButtonProps;
+    getLiveRegionProps: () => TabBarLiveRegionProps;
+    moveTab: (tabId: string, toIndex: number) => void;
+    isClosable: (tab: Tab) => boolean;
+    selectTab: (tabId: string) => void;
+    closeTab: (tabId: string) => void;
+    scroll: (direction: "start" | "end") => void;
+}
+
+const defaultIsClosable = (tab: Tab, tabs: Tab[]) => !tab.pinned && tabs.length > 1;
+
+const DRAG_THRESHOLD = 5;
+
+const visuallyHidden: React.CSSProperties = {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    padding: 0,
+    margin: -1,
+    overflow: "hidden",
+    clip: "rect(0, 0, 0, 0)",
+    whiteSpace: "nowrap",
+    border: 0,
+};
+
+const getTabLabel = (tab: Tab) => tab.title ?? tab.path;
+
+interface PointerDrag {
+    tabId: string;
+    pointerId: number;
+    startX: number;
+    startY: number;
+    dragging: boolean;
+}
+
+interface OverflowState {
+    canScrollStart: boolean;
+    canScrollEnd: boolean;
+    hiddenTabIds: string[];
+}
+
+const sameOverflow = (a: OverflowState, b: OverflowState) =>
+    a.canScrollStart === b.canScrollStart &&
+    a.canScrollEnd === b.canScrollEnd &&
+    a.hiddenTabIds.join() === b.hiddenTabIds.join();
+
+/**
+ * useTabBar hook - Headless tab strip implementing the WAI-ARIA tabs pattern
+ *
+ * Features:
+ * - `tablist`/`tab` roles, `aria-selected`, `aria-controls` and roving tabindex
+ * - Arrow keys, Home and End move focus; focus activates tabs in "automatic" mode,
+ *   Enter/Space do in "manual" mode
+ * - Delete and middle-click close closable tabs (through the close guards)
+ * - Overflow detection with scroll helpers and the list of tabs scrolled out of view
+ * - Reordering by pointer drag or Ctrl/Cmd+Shift+Arrow keys, with drop indicators
+ *   and screen reader announcements; pinned tabs stay in front
+ * - With `groupId`, shows and manages the tabs of one split view group
+ */
+export const useTabBar = ({
+    orientation = "horizontal",
+    activationMode = "automatic",
+    isClosable: isClosableOption = defaultIsClosable,
+    idPrefix = DEFAULT_ID_PREFIX,
+    reorderable = true,
+    groupId,
+}: UseTabBarOptions = {}): UseTabBarReturn => {
+    const allTabs = useTabs();
+    const group = useTabGroup(groupId ?? DEFAULT_GROUP_ID);
+    // Without a group the bar shows every tab, otherwise only the group's tabs
+    const { tabs, active, switchToTab, closeTab: closeTabById, reorderTabs } = groupId === undefined ? allTabs : group;
+    const [focusedId, setFocusedId] = useState<string | undefined>(undefined);
+    const [overflow, setOverflow] = useState<OverflowState>({
+        canScrollStart: false,
+        canScrollEnd: false,
+        hiddenTabIds: [],
+    });
+    const listRef = useRef<HTMLElement | null>(null);
+    const tabElements = useRef(new Map<string, HTMLElement>());
+    const pointerDrag = useRef<PointerDrag | null>(null);
+    const suppressClick = useRef(false);
+    const [drag, setDrag] = useState<TabDragState | null>(null);
+    const [announcement, setAnnouncement] = useState("");
+    const horizontal = orientation === "horizontal";
+
+    // The focusable tab falls back to the active tab when the focused one is gone
+    const focusedTabId = tabs.some((tab) => tab.id === focusedId) ? focusedId : active?.id;
+
+    const isClosable = useCallback((tab: Tab) => isClosableOption(tab, tabs), [isClosableOption, tabs]);
+
+    const selectTab = useCallback((tabId: string) => switchToTab(tabId), [switchToTab]);
+
+    const closeTab = useCallback(
+        (tabId: string) => {
+            const tab = tabs.find((t) => t.id === tabId);
+            if (tab && isClosable(tab)) {
+                closeTabById(tab.id);
+            }
+        },
+        [tabs, isClosable, closeTabById]
+    );
+
+    const focusTab = useCallback(
+        (tab: Tab) => {
+            setFocusedId(tab.id);
+            tabElements.current.get(tab.id)?.focus();
+            if (activationMode === "automatic") {
+                switchToTab(tab.id);
+            }
+        },
+        [activationMode, switchToTab]
+    );
+
+    const moveTab = useCallback(
+        (tabId: string, toIndex: number) => {
+            const fromIndex = tabs.findIndex((t) => t.id === tabId);
+            if (fromIndex === -1) {
+                return;
+            }
+            const targetIndex = clampToPinnedGroup(tabs, fromIndex, Math.min(Math.max(toIndex, 0), tabs.length - 1));
+            if (targetIndex === fromIndex) {
+                return;
+            }
+            reorderTabs(fromIndex, targetIndex);
+            setAnnouncement(
+                `${getTabLabel(tabs[fromIndex])} moved to position ${targetIndex + 1} of ${tabs.length}`
+            );
+        },
+        [tabs, reorderTabs]
+    );
+
+    const handleKeyDown = useCallback(
+        (event: React.KeyboardEvent<HTMLElement>, tab: Tab) => {
+            const index = tabs.findIndex((t) => t.id === tab.id);
+            const count = tabs.length;
+
+            if (event.key === "Escape" && drag) {
+                pointerDrag.current = null;
+                setDrag(null);
+                setAnnouncement("Reordering cancelled");
+                event.preventDefault();
+                return;
+            }
+
+            // Ctrl/Cmd+Shift+navigation keys move the tab instead of the focus
+            if (reorderable && (event.ctrlKey || event.metaKey) && event.shiftKey) {
+                const targets: Record<string, number> = {
+                    [horizontal ? "ArrowLeft" : "ArrowUp"]: index - 1,
+                    [horizontal ? "ArrowRight" : "ArrowDown"]: index + 1,
+                    Home: 0,
+                    End: count - 1,
+                };
+                if (event.key in targets) {
+                    moveTab(tab.id, targets[event.key]);
+                    event.preventDefault();
+                    return;
+                }
+            }
+
+            switch (event.key) {
+                case horizontal ? "ArrowLeft" : "ArrowUp":
+                    focusTab(tabs[(index - 1 + count) % count]);
+                    break;
+                case horizontal ? "ArrowRight" : "ArrowDown":
+                    focusTab(tabs[(index + 1) % count]);
+                    break;
+                case "Home":
+                    focusTab(tabs[0]);
+                    break;
+                case "End":
+                    focusTab(tabs[count - 1]);
+                    break;
+                case "Enter":
+                case " ":
+                    selectTab(tab.id);
+                    break;
+                case "Delete":
+                    closeTab(tab.id);
+                    break;
+                default:
+                    return;
+            }
+            event.preventDefault();
+        },
+        [tabs, horizontal, reorderable, drag, moveTab, focusTab, selectTab, closeTab]
+    );
+
+    // Final index of the dragged tab for a pointer position
+    const getDropIndex = useCallback(
+        (fromIndex: number, clientX: number, clientY: number) => {
+            const insertionIndex = tabs.filter((tab) => {
+                const element = tabElements.current.get(tab.id);
+                if (!element) {
+                    return false;
+                }
+                const rect = element.getBoundingClientRect();
+                return horizontal
+                    ? clientX > rect.left + rect.width / 2
+                    : clientY > rect.top + rect.height / 2;
+            }).length;
+            const toIndex = insertionIndex > fromIndex ? insertionIndex - 1 : insertionIndex;
+            return clampToPinnedGroup(tabs, fromIndex, Math.min(toIndex, tabs.length - 1));
+        },
+        [tabs, horizontal]
+    );
+
+    const handlePointerDown = useCallback(
+        (event: React.PointerEvent<HTMLElement>, tab: Tab) => {
+            if (!reorderable || event.button !== 0) {
+                return;
+            }
+            pointerDrag.current = {
+                tabId: tab.id,
+                pointerId: event.pointerId,
+                startX: event.clientX,
+                startY: event.clientY,
+                dragging: false,
+            };
+        },
+        [reorderable]
+    );
+
+    const handlePointerMove = useCallback(
+        (event: React.PointerEvent<HTMLElement>) => {
+            const current = pointerDrag.current;
+            if (!current || current.pointerId !== event.pointerId) {
+                return;
+            }
+            const fromIndex = tabs.findIndex((t) => t.id === current.tabId);
+            if (fromIndex === -1) {
+                return;
+            }
+
+            if (!current.dragging) {
+                const distance = Math.hypot(event.clientX - current.startX, event.clientY - current.startY);
+                if (distance < DRAG_THRESHOLD) {
+                    return;
+                }
+                current.dragging = true;
+                event.currentTarget.setPointerCapture?.(event.pointerId);
+                setAnnouncement(`Picked up ${getTabLabel(tabs[fromIndex])}`);
+            }
+
+            const toIndex = getDropIndex(fromIndex, event.clientX, event.clientY);
+            setDrag((previous) =>
+                previous?.tabId === current.tabId && previous.toIndex === toIndex
+                    ? previous
+                    : { tabId: current.tabId, fromIndex, toIndex }
+            );
+        },
+        [tabs, getDropIndex]
+    );
+
+    const handlePointerUp = useCallback(
+        (event: React.PointerEvent<HTMLElement>) => {
+            const current = pointerDrag.current;
+            if (!current || current.pointerId !== event.pointerId) {
+                return;
+            }
+            pointerDrag.current = null;
+            if (current.dragging) {
+                suppressClick.current = true;
+                if (drag) {
+                    moveTab(drag.tabId, drag.toIndex);
+                }
+            }
+            setDrag(null);
+        },
+        [drag, moveTab]
+    );
+
+    const handlePointerCancel = useCallback(() => {
+        pointerDrag.current = null;
+        setDrag(null);
+    }, []);
+
+    const getDropPosition = useCallback(
+        (tab: Tab): "before" | "after" | null => {
+            if (!drag || drag.toIndex === drag.fromIndex || tabs[drag.toIndex]?.id !== tab.id) {
+                return null;
+            }
+            return drag.toIndex > drag.fromIndex ? "after" : "before";
+        },
+        [drag, tabs]
+    );
+
+    // Measure which tabs are scrolled out of view
+    const measure = useCallback(() => {
+        const list = listRef.current;
+        if (!list) {
+            return;
+        }
+        const listRect = list.getBoundingClientRect();
+        const scrollStart = horizontal ? list.scrollLeft : list.scrollTop;
+        const scrollSize = horizontal ? list.scrollWidth : list.scrollHeight;
+        const clientSize = horizontal ? list.clientWidth : list.clientHeight;
+
+        const hiddenTabIds = tabs
+            .filter((tab) => {
+                const element = tabElements.current.get(tab.id);
+                if (!element) {
+                    return false;
+                }
+                const rect = element.getBoundingClientRect();
+                return horizontal
+                    ? rect.left < listRect.left - 1 || rect.right > listRect.right + 1
+                    : rect.top < listRect.top - 1 || rect.bottom > listRect.bottom + 1;
+            })
+            .map((tab) => tab.id);
+
+        const next: OverflowState = {
+            canScrollStart: scrollStart > 0,
+            canScrollEnd: scrollStart + clientSize < scrollSize - 1,
+            hiddenTabIds,
+        };
+        setOverflow((previous) => (sameOverflow(previous, next) ? previous : next));
+    }, [tabs, horizontal]);
+
+    useEffect(() => {
+        const list = listRef.current;
+        if (!list) {
+            return;
+        }
+        measure();
+        list.addEventListener("scroll", measure);
+        const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(measure) : null;
+        observer?.observe(list);
+        return () => {
+            list.removeEventListener("scroll", measure);
+            observer?.disconnect();
+        };
+    }, [measure]);
+
+    // Keep the active tab visible
+    useEffect(() => {
+        if (active) {
+            tabElements.current.get(active.id)?.scrollIntoView?.({ block: "nearest", inline: "nearest" });
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [active?.id]);
+
+    const scroll = useCallback(
+        (direction: "start" | "end") => {
+            const list = listRef.current;
+            if (!list) {
+                return;
+            }
+            const distance = (horizontal ? list.clientWidth : list.clientHeight) * 0.8;
+            const delta = direction === "start" ? -distance : distance;
+            list.scrollBy(horizontal ? { left: delta, behavior: "smooth" } : { top: delta, behavior: "smooth" });
+        },
+        [horizontal]
+    );
+
+    const getTabListProps = useCallback(
+        (): TabBarElementProps => ({
+            ref: (element) => {
+                listRef.current = element;
+            },
+            role: "tablist",
+            "aria-orientation": orientation,
+        }),
+        [orientation]
+    );
+
+    const getTabProps = useCallback(
+        (tab: Tab): TabBarElementProps => {
+            const isActive = tab.id === active?.id;
+            return {
+                ref: (element) => {
+                    if (element) {
+                        tabElements.current.set(tab.id, element);
+                    } else {
+                        tabElements.current.delete(tab.id);
+                    }
+                },
+                id: getTabElementId(idPrefix, tab.id),
+                role: "tab",
+                "aria-selected": isActive,
+                "aria-controls": getPanelElementId(idPrefix, tab.id),
+                tabIndex: tab.id === focusedTabId ? 0 : -1,
+                onClick: () => {
+                    // A drag ends with a click on the dragged tab
+                    if (suppressClick.current) {
+                        suppressClick.current = false;
+                        return;
+                    }
+                    selectTab(tab.id);
+                },
+                onFocus: () => setFocusedId(tab.id),
+                onKeyDown: (event) => handleKeyDown(event, tab),
+                onPointerDown: (event) => handlePointerDown(event, tab),
+                onPointerMove: handlePointerMove,
+                onPointerUp: handlePointerUp,
+                onPointerCancel: handlePointerCancel,
+                onMouseDown: (event) => {
+                    // Prevent autoscroll so middle-click can close the tab
+                    if (event.button === 1) {
+                        event.preventDefault();
+                    }
+                },
+                onAuxClick: (event) => {
+                    if (event.button === 1) {
+                        event.preventDefault();
+                        closeTab(tab.id);
+                    }
+                },
+            };
+        },
+        [
+            active?.id,
+            focusedTabId,
+            idPrefix,
+            selectTab,
+            handleKeyDown,
+            handlePointerDown,
+            handlePointerMove,
+            handlePointerUp,
+            handlePointerCancel,
+            closeTab,
+        ]
+    );
+
+    const getCloseButtonProps = useCallback(
+        (tab: Tab): TabBarButtonProps => ({
+            type: "button",
+            tabIndex: -1,
+            "aria-label": `Close ${tab.title ?? tab.path}`,
+            disabled: !isClosable(tab),
+            onClick: (event) => {
+                event.stopPropagation();
+                closeTab(tab.id);
+            },
+        }),
+        [isClosable, closeTab]
+    );
+
+    const getScrollButtonProps = useCallback(
+        (direction: "start" | "end"): TabBarButtonProps => ({
+            type: "button",
+            tabIndex: -1,
+            "aria-hidden": true,
+            disabled: direction === "start" ? !overflow.canScrollStart : !overflow.canScrollEnd,
+            onClick: () => scroll(direction),
+        }),
+        [overflow.canScrollStart, overflow.canScrollEnd, scroll]
+    );
+
+    const getLiveRegionProps = useCallback(
+        (): TabBarLiveRegionProps => ({
+            role: "status",
+            "aria-live": "polite",
+            "aria-atomic": true,
+            style: visuallyHidden,
+            children: announcement,
+        }),
+        [announcement]
+    );
+
+    return {
+        tabs,
+        activeTabId: active?.id,
+        focusedTabId,
+        canScrollStart: overflow.canScrollStart,
+        canScrollEnd: overflow.canScrollEnd,
+        hiddenTabs: tabs.filter((tab) => overflow.hiddenTabIds.includes(tab.id)),
+        drag,
+        getDropPosition,
+        getTabListProps,
+        getTabProps,
+        getCloseButtonProps,
+        getScrollButtonProps,
+        getLiveRegionProps,
+        moveTab,
+        isClosable,
+        selectTab,
+        closeTab,
+        scroll,
+    };
+};
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useReducer } from "react";
+import { useTabRouterContext } from "../TabRouterProvider";
+import { useEnclosingTabId } from "./useEnclosingTabId";
+import { getLoaderRoute } from "../loaders";
+import { Tab } from "../types";
+
+export interface UseTabDataReturn<TData = unknown> {
+    tab: Tab | null;
+    data: TData | undefined;
+    error: Error | null;
+    isLoading: boolean;
+    updatedAt: number | null;
+    reload: () => Promise<void>;
+}
+
+/**
+ * useTabData hook - Data loaded by the route loader of the tab a component belongs to
+ * Cached data is returned while it is revalidated, so `isLoading` can be true
+ * while `data` is set
+ */
+export const useTabData = <TData = unknown>(): UseTabDataReturn<TData> => {
+    const { state, routes, getTabKey, loaders, loadTab } = useTabRouterContext();
+    const tabId = useEnclosingTabId();
+    const tab = state.tabs.find((t) => t.id === tabId) || null;
+    const key = tab ? getTabKey(tab) : null;
+
+    // Re-render when this tab's entry changes
+    const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+    useEffect(
+        () =>
+            loaders.subscribe((changedKey) => {
+                if (changedKey === key) {
+                    forceUpdate();
+                }
+            }),
+        [loaders, key]
+    );
+
+    // Load on mount, e.g. for a restored tab rendered by TabPanels; loads in flight are shared
+    useEffect(() => {
+        if (tab) {
+            loadTab(tab);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [tab?.id, tab?.path, tab?.params]);
+
+    const reload = useCallback(
+        () => (tab ? loadTab(tab, { force: true }) : Promise.resolve()),
+        [tab, loadTab]
+    );
+
+    const entry = key ? loaders.get(key) : undefined;
+    return {
+        tab,
+        data: entry?.data as TData | undefined,
+        error: entry?.error ?? null,
+        // Until the first load starts
+        isLoading: entry ? entry.isLoading : !!tab && getLoaderRoute(routes, tab) !== null,
+        updatedAt: entry?.updatedAt ?? null,
+        reload,
+    };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useRef } from "react";
+import { useTabStore } from "../TabRouterProvider";
+import { RouterScopeOptions, TabEventListener, TabEventType } from "../types";
+
+/**
+ * useTabEvent hook - Listen to a tab lifecycle event while the component is mounted
+ * e.g. `useTabEvent("tabOpened", ({ tab }) => analytics.track("tab_opened", { path: tab.path }))`
+ */
+export const useTabEvent = <K extends TabEventType>(
+    type: K,
+    listener: TabEventListener<K>,
+    { scope }: RouterScopeOptions = {}
+) => {
+    const store = useTabStore(scope);
+    const latestListener = useRef(listener);
+    latestListener.current = listener;
+
+    useEffect(() => store.on(type, (event) => latestListener.current(event)), [store, type]);
+};
@@ -0,0 +1,74 @@
+import { useCallback, useMemo } from "react";
+import { useTabs } from "./useTabs";
+import { Tab, TabInput } from "../types";
+import { getGroupTabs } from "../tabGroups";
+import { useTabRouterContext } from "../TabRouterProvider";
+
+export interface UseTabGroupReturn {
+    id: string;
+    tabs: Tab[];
+    active: Tab | null;
+    isFocused: boolean;
+    focus: () => void;
+    openTab: (tabData: TabInput) => Promise<boolean>;
+    switchToTab: (tabId: string) => void;
+    closeTab: (tabId: string) => Promise<boolean>;
+    reorderTabs: (fromIndex: number, toIndex: number) => void;
+    moveTab: (tabId: string, groupId: string, index?: number) => void;
+}
+
+/**
+ * useTabGroup hook - Tab management scoped to one group of a split view
+ * Indices passed to `reorderTabs` are positions within the group. `openTab`
+ * focuses the group first, so new tabs open in it
+ */
+export const useTabGroup = (groupId: string): UseTabGroupReturn => {
+    const { state } = useTabRouterContext();
+    const {
+        groups,
+        focusedGroupId,
+        focusGroup,
+        openTab: openTabInFocusedGroup,
+        switchToTab,
+        closeTab,
+        reorderTabs: reorderAllTabs,
+        moveTabToGroup,
+    } = useTabs();
+    const group = groups.find((g) => g.id === groupId);
+    const tabs = useMemo(() => getGroupTabs(state, group), [state, group]);
+    const active = tabs.find((tab) => tab.id === group?.active_tab_id) || null;
+
+    const focus = useCallback(() => focusGroup(groupId), [focusGroup, groupId]);
+
+    const openTab = useCallback(
+        (tabData: TabInput) => {
+            focusGroup(groupId);
+            return openTabInFocusedGroup(tabData);
+        },
+        [focusGroup, openTabInFocusedGroup, groupId]
+    );
+
+    const reorderTabs = useCallback(
+        (fromIndex: number, toIndex: number) => {
+            const from = state.tabs.indexOf(tabs[fromIndex]);
+            const to = state.tabs.indexOf(tabs[toIndex]);
+            if (from !== -1 && to !== -1) {
+                reorderAllTabs(from, to);
+            }
+        },
+        [reorderAllTabs, state.tabs, tabs]
+    );
+
+    return {
+        id: groupId,
+        tabs,
+        active,
+        isFocused: focusedGroupId === groupId,
+        focus,
+        openTab,
+        switchToTab,
+        closeTab,
+        reorderTabs,
+        moveTab: moveTabToGroup,
+    };
+};
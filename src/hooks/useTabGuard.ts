@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+import { useTabRouterContext } from "../TabRouterProvider";
+import { useEnclosingTabId } from "./useEnclosingTabId";
+
+const DEFAULT_MESSAGE = "You have unsaved changes. Are you sure you want to leave?";
+
+/**
+ * useTabGuard hook - Protects the enclosing tab from being closed or navigated away
+ * While `shouldBlock` is true, closing the tab or replacing its content asks for
+ * confirmation, and leaving the page triggers the browser's beforeunload prompt
+ */
+export const useTabGuard = (
+    shouldBlock: boolean | (() => boolean),
+    message: string = DEFAULT_MESSAGE
+) => {
+    const { guards } = useTabRouterContext();
+    const tabId = useEnclosingTabId();
+    const latest = useRef({ shouldBlock, message });
+    latest.current = { shouldBlock, message };
+
+    useEffect(() => {
+        if (!tabId) {
+            return;
+        }
+        return guards.register(tabId, {
+            shouldBlock: () => {
+                const { shouldBlock: block } = latest.current;
+                return typeof block === "function" ? block() : block;
+            },
+            getMessage: () => latest.current.message,
+        });
+    }, [guards, tabId]);
+};
@@ -0,0 +1,70 @@
+import { useCallback } from "react";
+import { useTabRouterContext } from "../TabRouterProvider";
+import { useEnclosingTabId } from "./useEnclosingTabId";
+import { Tab, TabMeta } from "../types";
+
+export interface UseTabMetaReturn<TMeta extends Record<string, unknown> = Record<string, unknown>> {
+    tab: Tab | null;
+    title?: string;
+    icon?: string;
+    pinned: boolean;
+    dirty: boolean;
+    meta: Partial<TMeta>;
+    setTitle: (title: string) => void;
+    setIcon: (icon: string | undefined) => void;
+    setDirty: (dirty: boolean) => void;
+    setMeta: (meta: Partial<TMeta>) => void;
+    pin: () => void;
+    unpin: () => void;
+}
+
+/**
+ * useTabMeta hook - Lets a tab's content read and update its own metadata
+ * e.g. set the tab title once a record has loaded, or mark the tab as dirty
+ */
+export const useTabMeta = <
+    TMeta extends Record<string, unknown> = Record<string, unknown>
+>(): UseTabMetaReturn<TMeta> => {
+    const { state, dispatch } = useTabRouterContext();
+    const tabId = useEnclosingTabId();
+    const tab = state.tabs.find((t) => t.id === tabId) || null;
+    const meta = (tab?.meta || {}) as Partial<TMeta>;
+
+    const update = useCallback(
+        (changes: Partial<TabMeta>) => {
+            if (tabId) {
+                dispatch({
+                    type: "UPDATE_TAB_META",
+                    payload: { id: tabId, changes },
+                });
+            }
+        },
+        [dispatch, tabId]
+    );
+
+    const setTitle = useCallback((title: string) => update({ title }), [update]);
+    const setIcon = useCallback((icon: string | undefined) => update({ icon }), [update]);
+    const setDirty = useCallback((dirty: boolean) => update({ dirty }), [update]);
+    const pin = useCallback(() => update({ pinned: true }), [update]);
+    const unpin = useCallback(() => update({ pinned: false }), [update]);
+
+    const setMeta = useCallback(
+        (changes: Partial<TMeta>) => update({ meta: { ...tab?.meta, ...changes } }),
+        [update, tab?.meta]
+    );
+
+    return {
+        tab,
+        title: tab?.title,
+        icon: tab?.icon,
+        pinned: !!tab?.pinned,
+        dirty: !!tab?.dirty,
+        meta,
+        setTitle,
+        setIcon,
+        setDirty,
+        setMeta,
+        pin,
+        unpin,
+    };
+};
@@ -1,32 +1,28 @@
 import { useCallback, useMemo } from "react";
 import { useTabRouterContext } from "../TabRouterProvider";
-import { Tab } from "../types";
+import { RouterScopeOptions, Tab, TabInput, TabParams } from "../types";
+import { canGo } from "../tabHistory";
 
 export interface UseTabRouterReturn {
-    query: Record<string, string | number>;
+    query: TabParams;
     pathname: string;
     active: Tab | null;
     active_index: number;
     tabs: Tab[];
-    push: (
-        url:
-            | string
-            | {
-                path: string;
-                params?: {
-                    [x: string]: string | number;
-                };
-            }
-    ) => void;
-    replace: (url: string | Tab) => void;
-    closePath: (path: string) => void;
-    closeOthers: (path: string) => void;
+    push: (url: string | { path: string; params?: TabParams; hash?: string }) => Promise<boolean>;
+    replace: (url: string | TabInput) => Promise<boolean>;
+    closePath: (path: string) => Promise<boolean>;
+    closeOthers: (path: string) => Promise<boolean>;
     switchToPath: (path: string) => void;
     reorderTabs: (fromIndex: number, toIndex: number) => void;
+    go: (delta: number) => Promise<boolean>;
+    canGoBack: boolean;
+    canGoForward: boolean;
+    isHydrating: boolean;
 }
 
-export const useTabRouter = (): UseTabRouterReturn => {
-    const { state, dispatch } = useTabRouterContext();
+export const useTabRouter = ({ scope }: RouterScopeOptions = {}): UseTabRouterReturn => {
+    const { state, dispatch, store, isHydrating } = useTabRouterContext(scope);
     const { tabs, active_index } = state;
     const activeTab = tabs?.[active_index] || null;
 
@@ -39,68 +35,17 @@ export const useTabRouter = (): UseTabRouterReturn => {
     }, [activeTab?.path]);
 
     const push = useCallback(
-        (
-            url:
-                | string
-                | {
-                    path: string;
-                    params?: {
-                        [x: string]: string | number;
-                    };
-                }
-        ) => {
-            const desiredPath = typeof url === "string" ? url : url.path;
-            dispatch({
-                type: "ADD_TAB",
-                payload: {
-                    path: desiredPath,
-                    params: typeof url === "string" ? {} : url.params,
-                },
-            });
-        },
-        [dispatch]
+        (url: string | { path: string; params?: TabParams; hash?: string }) => store.push(url),
+        [store]
     );
 
-    const replace = useCallback(
-        (url: string | Tab) => {
-            const desiredPath = typeof url === "string" ? url : url.path;
-            dispatch({
-                type: "REPLACE_TAB",
-                payload: {
-                    path: desiredPath,
-                    params: typeof url === "string" ? {} : url.params,
-                },
-            });
-        },
-        [dispatch]
-    );
+    const replace = useCallback((url: string | TabInput) => store.replace(url), [store]);
 
-    const closePath = useCallback(
-        (path: string) =>
-            dispatch({
-                type: "CLOSE_TAB",
-                payload: path,
-            }),
-        [dispatch]
-    );
+    const closePath = useCallback((path: string) => store.closeTab(path), [store]);
 
-    const closeOthers = useCallback(
-        (path: string) =>
-            dispatch({
-                type: "CLOSE_OTHER_TABS",
-                payload: path,
-            }),
-        [dispatch]
-    );
+    const closeOthers = useCallback((path: string) => store.closeOtherTabs(path), [store]);
 
-    const switchToPath = useCallback(
-        (path: string) =>
-            dispatch({
-                type: "SET_ACTIVE_TAB",
-                payload: path,
-            }),
-        [dispatch]
-    );
+    const switchToPath = useCallback((path: string) => store.switchToTab(path), [store]);
 
     const reorderTabs = useCallback(
         (fromIndex: number, toIndex: number) =>
@@ -111,6 +56,8 @@ export const useTabRouter = (): UseTabRouterReturn => {
         [dispatch]
     );
 
+    const go = useCallback((delta: number) => store.go(delta), [store]);
+
     return {
         query,
         pathname,
@@ -123,5 +70,9 @@ export const useTabRouter = (): UseTabRouterReturn => {
         closeOthers,
         switchToPath,
         reorderTabs,
+        go,
+        canGoBack: canGo(activeTab, -1),
+        canGoForward: canGo(activeTab, 1),
+        isHydrating,
     };
 };
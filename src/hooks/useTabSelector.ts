@@ -0,0 +1,34 @@
+import { useCallback, useRef } from "react";
+import { useSyncExternalStore } from "use-sync-external-store/shim";
+import { useTabStore } from "../TabRouterProvider";
+import { RouterScopeOptions, TabsState } from "../types";
+
+/**
+ * useTabSelector hook - Read a slice of the tab state
+ * The component only re-renders when the selected value changes, compared
+ * with `isEqual` (Object.is by default), e.g.
+ * `const title = useTabSelector((state) => state.tabs[state.active_index]?.title)`
+ */
+export const useTabSelector = <T>(
+    selector: (state: TabsState) => T,
+    isEqual: (a: T, b: T) => boolean = Object.is,
+    { scope }: RouterScopeOptions = {}
+): T => {
+    const store = useTabStore(scope);
+    const last = useRef<{ state: TabsState; selector: (state: TabsState) => T; value: T } | null>(null);
+
+    // Keep returning the previous value while it is equal, so the snapshot only changes with the slice
+    const getSelection = useCallback(() => {
+        const state = store.getState();
+        const previous = last.current;
+        if (previous && previous.state === state && previous.selector === selector) {
+            return previous.value;
+        }
+        const selected = selector(state);
+        const value = previous && isEqual(previous.value, selected) ? previous.value : selected;
+        last.current = { state, selector, value };
+        return value;
+    }, [store, selector, isEqual]);
+
+    return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+};
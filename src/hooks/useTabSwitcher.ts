@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTabs } from "./useTabs";
+import { Tab } from "../types";
+
+export interface UseTabSwitcherOptions {
+    enabled?: boolean;
+    modifier?: "ctrl" | "alt" | "meta";
+}
+
+export interface UseTabSwitcherReturn {
+    isOpen: boolean;
+    tabs: Tab[];
+    selectedIndex: number;
+    selectedTab: Tab | null;
+    next: () => void;
+    previous: () => void;
+    select: (index: number) => void;
+    commit: () => void;
+    cancel: () => void;
+}
+
+interface SwitcherSession {
+    tabs: Tab[];
+    index: number;
+}
+
+const modifierKeys = {
+    ctrl: { key: "Control", pressed: (event: KeyboardEvent) => event.ctrlKey },
+    alt: { key: "Alt", pressed: (event: KeyboardEvent) => event.altKey },
+    meta: { key: "Meta", pressed: (event: KeyboardEvent) => event.metaKey },
+};
+
+/**
+ * useTabSwitcher hook - Cycles through tabs in most-recently-used order
+ *
+ * Modifier+Tab opens the switcher on the previously used tab and moves forward,
+ * Modifier+Shift+Tab moves backward. Releasing the modifier switches to the
+ * selected tab, Escape cancels. While open, `tabs` is a snapshot of the MRU
+ * order and `selectedTab` can be rendered as a preview overlay.
+ */
+export const useTabSwitcher = ({
+    enabled = true,
+    modifier = "ctrl",
+}: UseTabSwitcherOptions = {}): UseTabSwitcherReturn => {
+    const { recentTabs, switchToTab } = useTabs();
+    const [session, setSession] = useState<SwitcherSession | null>(null);
+    const sessionRef = useRef(session);
+    sessionRef.current = session;
+
+    const step = useCallback(
+        (delta: number) => {
+            setSession((current) => {
+                if (current) {
+                    const count = current.tabs.length;
+                    return { ...current, index: (current.index + delta + count) % count };
+                }
+                if (recentTabs.length < 2) {
+                    return null;
+                }
+                // The first step from the current tab lands on the previously used one
+                return { tabs: recentTabs, index: delta > 0 ? 1 : recentTabs.length - 1 };
+            });
+        },
+        [recentTabs]
+    );
+
+    const next = useCallback(() => step(1), [step]);
+
+    const previous = useCallback(() => step(-1), [step]);
+
+    const select = useCallback((index: number) => {
+        setSession((current) =>
+            current && index >= 0 && index < current.tabs.length ? { ...current, index } : current
+        );
+    }, []);
+
+    const cancel = useCallback(() => setSession(null), []);
+
+    const commit = useCallback(() => {
+        const current = sessionRef.current;
+        if (current) {
+            switchToTab(current.tabs[current.index].id);
+        }
+        setSession(null);
+    }, [switchToTab]);
+
+    useEffect(() => {
+        if (!enabled || typeof window === "undefined") {
+            return;
+        }
+        const { key: modifierKey, pressed } = modifierKeys[modifier];
+
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Tab" && pressed(event)) {
+                event.preventDefault();
+                step(event.shiftKey ? -1 : 1);
+            } else if (event.key === "Escape" && sessionRef.current) {
+                event.preventDefault();
+                cancel();
+            }
+        };
+        const onKeyUp = (event: KeyboardEvent) => {
+            if (event.key === modifierKey && sessionRef.current) {
+                commit();
+            }
+        };
+
+        window.addEventListener("keydown", onKeyDown);
+        window.addEventListener("keyup", onKeyUp);
+        window.addEventListener("blur", cancel);
+        return () => {
+            window.removeEventListener("keydown", onKeyDown);
+            window.removeEventListener("keyup", onKeyUp);
+            window.removeEventListener("blur", cancel);
+        };
+    }, [enabled, modifier, step, commit, cancel]);
+
+    return {
+        isOpen: session !== null,
+        tabs: session?.tabs ?? recentTabs,
+        selectedIndex: session?.index ?? 0,
+        selectedTab: session ? session.tabs[session.index] : null,
+        next,
+        previous,
+        select,
+        commit,
+        cancel,
+    };
+};
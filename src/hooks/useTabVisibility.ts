@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react";
+import { Tab } from "../types";
+
+export interface TabVisibility {
+    tab: Tab;
+    isActive: boolean;
+    isFrozen: boolean;
+}
+
+export const TabPanelContext = createContext<TabVisibility | undefined>(undefined);
+
+/**
+ * useTabVisibility hook - Visibility of the enclosing panel (TabPanels or TabOutlet)
+ * `isActive` is true while the panel's tab is the active tab,
+ * `isFrozen` is true while the panel stays mounted but hidden
+ */
+export const useTabVisibility = (): TabVisibility => {
+    const context = useContext(TabPanelContext);
+    if (context === undefined) {
+        throw new Error("useTabVisibility must be used within TabPanels or TabOutlet");
+    }
+    return context;
+};
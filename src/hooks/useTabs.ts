@@ -1,67 +1,108 @@
-import { useCallback } from "react";
+import { useCallback, useMemo } from "react";
 import { useTabRouterContext } from "../TabRouterProvider";
-import { Tab } from "../types";
+import { ClosedTab, RouterScopeOptions, Tab, TabGroup, TabInput, TabMeta } from "../types";
+import { findTab } from "../tabIdentity";
+import { createGroupId, findGroupOf, getFocusedGroup, getGroups } from "../tabGroups";
 
 export interface UseTabsReturn {
-    openTab: (tabData: Tab) => void;
-    closeTab: (tabId: string) => void;
-    closeOtherTabs: (tabId: string) => void;
-    switchToTab: (path: string) => void;
+    openTab: (tabData: TabInput) => Promise<boolean>;
+    closeTab: (tabId: string) => Promise<boolean>;
+    closeOtherTabs: (tabId: string) => Promise<boolean>;
+    closeTabsToRight: (tabId: string) => Promise<boolean>;
+    closeTabsToLeft: (tabId: string) => Promise<boolean>;
+    closeAllTabs: () => Promise<boolean>;
+    closeTabsWhere: (predicate: (tab: Tab, index: number) => boolean) => Promise<boolean>;
+    closeSavedTabs: () => Promise<boolean>;
+    switchToTab: (tabId: string) => void;
     reorderTabs: (fromIndex: number, toIndex: number) => void;
     isTabOpen: (path: string) => boolean;
     getTabByPath: (path: string) => Tab | undefined;
+    getTabById: (tabId: string) => Tab | undefined;
+    updateTab: (tabId: string, changes: Partial<TabMeta>) => void;
+    setTabTitle: (tabId: string, title: string) => void;
+    setTabDirty: (tabId: string, dirty: boolean) => void;
+    pinTab: (tabId: string) => void;
+    unpinTab: (tabId: string) => void;
+    recentTabs: Tab[];
+    groups: TabGroup[];
+    focusedGroupId: string | undefined;
+    focusGroup: (groupId: string) => void;
+    moveTabToGroup: (tabId: string, groupId: string, index?: number) => void;
+    splitTab: (tabId: string) => string | undefined;
+    closedTabs: ClosedTab[];
+    reopenLastClosed: () => void;
+    reopenClosed: (tabId: string) => void;
+    undo: () => Promise<boolean>;
+    redo: () => Promise<boolean>;
+    canUndo: boolean;
+    canRedo: boolean;
     active: Tab | null;
     active_index: number;
     tabs: Tab[];
+    isHydrating: boolean;
 }
 
-export const useTabs = (): UseTabsReturn => {
-    const { state, dispatch } = useTabRouterContext();
+const emptyClosedTabs: ClosedTab[] = [];
+
+export const useTabs = ({ scope }: RouterScopeOptions = {}): UseTabsReturn => {
+    const { state, dispatch, store, isHydrating } = useTabRouterContext(scope);
     const { active_index, tabs } = state;
+    const closedTabs = state.closed_tabs || emptyClosedTabs;
 
-    const openTab = useCallback(
-        (tabData: Tab) => {
-            dispatch({
-                type: "ADD_TAB",
-                payload: tabData,
-            });
-        },
-        [dispatch]
-    );
+    // Most recently used first; tabs that were never activated follow in bar order
+    const recentTabs = useMemo(() => {
+        const recent = (state.mru || [])
+            .map((id) => tabs.find((tab) => tab.id === id))
+            .filter((tab): tab is Tab => !!tab);
+        return [...recent, ...tabs.filter((tab) => !recent.includes(tab))];
+    }, [state.mru, tabs]);
 
-    const closeTabById = useCallback(
-        (tabId: string) => {
-            dispatch({
-                type: "CLOSE_TAB",
-                payload: tabId,
-            });
-        },
-        [dispatch]
+    const openTab = useCallback((tabData: TabInput) => store.openTab(tabData), [store]);
+
+    // Closes the given tabs as one batch; closing the last tab opens initialPath unless allowEmpty is set
+    const closeTabs = useCallback((closing: Tab[]) => store.closeTabs(closing.map((tab) => tab.id)), [store]);
+
+    const closeTabById = useCallback((tabId: string) => store.closeTab(tabId), [store]);
+
+    const closeOtherTabsById = useCallback((tabId: string) => store.closeOtherTabs(tabId), [store]);
+
+    // Bulk operations never close pinned tabs
+    const closeTabsWhere = useCallback(
+        (predicate: (tab: Tab, index: number) => boolean) =>
+            closeTabs(tabs.filter((tab, index) => !tab.pinned && predicate(tab, index))),
+        [closeTabs, tabs]
     );
 
-    const closeOtherTabsById = useCallback(
-        (tabId: string) => {
-            dispatch({
-                type: "CLOSE_OTHER_TABS",
-                payload: tabId,
-            });
+    const closeTabsToRight = useCallback(
+        async (tabId: string) => {
+            const tab = findTab(tabs, active_index, tabId);
+            if (!tab) {
+                return false;
+            }
+            const pivot = tabs.indexOf(tab);
+            return closeTabsWhere((_, index) => index > pivot);
         },
-        [dispatch]
+        [closeTabsWhere, tabs, active_index]
     );
 
-    const switchToTab = useCallback(
-        (path: string) => {
-            const tab = tabs.find((t: Tab) => t.path === path);
-            if (tab) {
-                dispatch({
-                    type: "SET_ACTIVE_TAB",
-                    payload: path,
-                });
+    const closeTabsToLeft = useCallback(
+        async (tabId: string) => {
+            const tab = findTab(tabs, active_index, tabId);
+            if (!tab) {
+                return false;
             }
+            const pivot = tabs.indexOf(tab);
+            return closeTabsWhere((_, index) => index < pivot);
         },
-        [dispatch, tabs]
+        [closeTabsWhere, tabs, active_index]
     );
 
+    const closeAllTabs = useCallback(() => closeTabsWhere(() => true), [closeTabsWhere]);
+
+    const closeSavedTabs = useCallback(() => closeTabsWhere((tab) => !tab.dirty), [closeTabsWhere]);
+
+    const switchToTab = useCallback((tabId: string) => store.switchToTab(tabId), [store]);
+
     const reorderTabsAction = useCallback(
         (fromIndex: number, toIndex: number) => {
             dispatch({
@@ -86,16 +127,138 @@ export const useTabs = (): UseTabsReturn => {
         [tabs]
     );
 
+    const getTabById = useCallback(
+        (tabId: string) => {
+            return tabs.find((tab: Tab) => tab.id === tabId);
+        },
+        [tabs]
+    );
+
+    const updateTab = useCallback(
+        (tabId: string, changes: Partial<TabMeta>) => {
+            const tab = findTab(tabs, active_index, tabId);
+            if (tab) {
+                dispatch({
+                    type: "UPDATE_TAB_META",
+                    payload: { id: tab.id, changes },
+                });
+            }
+        },
+        [dispatch, tabs, active_index]
+    );
+
+    const setTabTitle = useCallback(
+        (tabId: string, title: string) => updateTab(tabId, { title }),
+        [updateTab]
+    );
+
+    const setTabDirty = useCallback(
+        (tabId: string, dirty: boolean) => updateTab(tabId, { dirty }),
+        [updateTab]
+    );
+
+    const pinTab = useCallback((tabId: string) => updateTab(tabId, { pinned: true }), [updateTab]);
+
+    const unpinTab = useCallback((tabId: string) => updateTab(tabId, { pinned: false }), [updateTab]);
+
+    const groups = useMemo(() => getGroups(state), [state]);
+
+    const focusedGroupId = getFocusedGroup(state)?.id;
+
+    const focusGroup = useCallback(
+        (groupId: string) => {
+            dispatch({
+                type: "FOCUS_GROUP",
+                payload: groupId,
+            });
+        },
+        [dispatch]
+    );
+
+    const moveTabToGroup = useCallback(
+        (tabId: string, groupId: string, index?: number) => {
+            const tab = findTab(tabs, active_index, tabId);
+            if (tab) {
+                dispatch({
+                    type: "MOVE_TAB_TO_GROUP",
+                    payload: { id: tab.id, groupId, index },
+                });
+            }
+        },
+        [dispatch, tabs, active_index]
+    );
+
+    // Moves the tab into a new group next to its current one and returns the new group's id
+    const splitTab = useCallback(
+        (tabId: string) => {
+            const tab = findTab(tabs, active_index, tabId);
+            // The only tab of a group cannot be split off
+            if (!tab || (findGroupOf(state, tab.id)?.tab_ids.length ?? 0) < 2) {
+                return undefined;
+            }
+            const groupId = createGroupId();
+            dispatch({
+                type: "SPLIT_TAB",
+                payload: { id: tab.id, groupId },
+            });
+            return groupId;
+        },
+        [dispatch, state, tabs, active_index]
+    );
+
+    // Reopens every tab of the most recent close operation, e.g. all tabs closed by "close others"
+    const reopenLastClosed = useCallback(() => store.reopenLastClosed(), [store]);
+
+    const reopenClosed = useCallback(
+        (tabId: string) => {
+            dispatch({
+                type: "REOPEN_CLOSED_TABS",
+                payload: [tabId],
+            });
+        },
+        [dispatch]
+    );
+
+    // Undo and redo step through changes to the tab strip: opening, closing, reordering, pinning and grouping
+    const undo = useCallback(() => store.undo(), [store]);
+
+    const redo = useCallback(() => store.redo(), [store]);
+
     return {
         openTab,
         closeTab: closeTabById,
         closeOtherTabs: closeOtherTabsById,
+        closeTabsToRight,
+        closeTabsToLeft,
+        closeAllTabs,
+        closeTabsWhere,
+        closeSavedTabs,
         switchToTab,
         reorderTabs: reorderTabsAction,
         isTabOpen,
         getTabByPath,
+        getTabById,
+        updateTab,
+        setTabTitle,
+        setTabDirty,
+        pinTab,
+        unpinTab,
+        recentTabs,
+        groups,
+        focusedGroupId,
+        focusGroup,
+        moveTabToGroup,
+        splitTab,
+        closedTabs,
+        reopenLastClosed,
+        reopenClosed,
+        undo,
+        redo,
+        canUndo: !!state.undo_stack?.length,
+        canRedo: !!state.redo_stack?.length,
         active: tabs?.[active_index] || null,
         active_index,
         tabs,
+        isHydrating,
     };
 };
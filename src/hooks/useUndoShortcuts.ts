@@ -0,0 +1,49 @@
+import { useEffect } from "react";
+import { useTabStore } from "../TabRouterProvider";
+import { RouterScopeOptions } from "../types";
+
+export interface UseUndoShortcutsOptions extends RouterScopeOptions {
+    enabled?: boolean;
+}
+
+const isEditable = (target: EventTarget | null) =>
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * useUndoShortcuts hook - Keyboard shortcuts for the tab-strip history
+ *
+ * Ctrl+Z undoes, Ctrl+Shift+Z and Ctrl+Y redo and Ctrl+Shift+T reopens the
+ * last closed tabs; Cmd works in place of Ctrl. Keys pressed in form fields
+ * and contenteditable elements are left alone so text editing keeps its own
+ * undo, and keys with nothing to do reach the browser.
+ */
+export const useUndoShortcuts = ({ enabled = true, scope }: UseUndoShortcutsOptions = {}) => {
+    const store = useTabStore(scope);
+
+    useEffect(() => {
+        if (!enabled || typeof window === "undefined") {
+            return;
+        }
+
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditable(event.target)) {
+                return;
+            }
+            const key = event.key.toLowerCase();
+            if (key === "z" && !event.shiftKey && store.canUndo()) {
+                event.preventDefault();
+                store.undo();
+            } else if (((key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey)) && store.canRedo()) {
+                event.preventDefault();
+                store.redo();
+            } else if (key === "t" && event.shiftKey && store.getState().closed_tabs?.length) {
+                event.preventDefault();
+                store.reopenLastClosed();
+            }
+        };
+
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [enabled, store]);
+};
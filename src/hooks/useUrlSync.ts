@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from "react";
+import { QueryCodec, RouteDefinition, Tab, TabsAction, TabsState } from "../types";
+import { createTab } from "../tabIdentity";
+import { getTabHref, readLocation } from "../url";
+import { getHistory, getHistoryIndex } from "../tabHistory";
+
+const HISTORY_STATE_KEY = "tabrouter";
+
+// Steps from the tab's current history entry to the nearest entry at the href, or null if it has none
+const findHistoryDelta = (tab: Tab, href: string, routes: RouteDefinition[], codec: QueryCodec): number | null => {
+    const current = getHistoryIndex(tab);
+    const deltas = getHistory(tab)
+        .map((entry, index) => ({ entry, delta: index - current }))
+        .filter(({ entry }) => getTabHref({ ...tab, ...entry }, routes, codec) === href)
+        .map(({ delta }) => delta)
+        .sort((a, b) => Math.abs(a) - Math.abs(b));
+    return deltas.length > 0 ? deltas[0] : null;
+};
+
+/**
+ * useUrlSync hook - Two-way sync between the active tab and the browser URL
+ * Used internally by TabRouterProvider when `urlSync` is enabled
+ *
+ * - Writes the active tab's path, query and hash with pushState/replaceState
+ * - Maps popstate (browser back/forward) to tab activation and the tab's own
+ *   history, reopening closed tabs
+ */
+export const useUrlSync = (
+    enabled: boolean,
+    state: TabsState,
+    dispatch: React.Dispatch<TabsAction>,
+    routes: RouteDefinition[],
+    codec: QueryCodec
+) => {
+    const activeTab = state.tabs[state.active_index] || null;
+    const activeHref = activeTab ? getTabHref(activeTab, routes, codec) : null;
+    const isFirstSync = useRef(true);
+    const stateRef = useRef(state);
+    stateRef.current = state;
+
+    // Write the active tab's location to the address bar
+    useEffect(() => {
+        if (!enabled || typeof window === "undefined" || !activeTab || activeHref === null) {
+            return;
+        }
+
+        const historyState = { [HISTORY_STATE_KEY]: { tabId: activeTab.id } };
+        const currentHref = window.location.pathname + window.location.search + window.location.hash;
+
+        if (currentHref === activeHref) {
+            // Already at this location (initial load or popstate), just tag the entry
+            window.history.replaceState(historyState, "", activeHref);
+        } else if (isFirstSync.current) {
+            window.history.replaceState(historyState, "", activeHref);
+        } else {
+            window.history.pushState(historyState, "", activeHref);
+        }
+        isFirstSync.current = false;
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [enabled, activeTab?.id, activeHref]);
+
+    // Map browser back/forward to tab activation
+    useEffect(() => {
+        if (!enabled || typeof window === "undefined") {
+            return;
+        }
+
+        const handlePopState = (event: PopStateEvent) => {
+            const tabId = event.state?.[HISTORY_STATE_KEY]?.tabId;
+            const currentHref = window.location.pathname + window.location.search + window.location.hash;
+            const tab = stateRef.current.tabs.find((t) => t.id === tabId);
+
+            // Activate the tab, moving through its own history if it navigated since the entry was written
+            const delta = tab ? findHistoryDelta(tab, currentHref, routes, codec) : null;
+            if (tab && delta !== null) {
+                if (delta !== 0) {
+                    dispatch({ type: "GO_HISTORY", payload: { id: tab.id, delta } });
+                }
+                dispatch({ type: "SET_ACTIVE_TAB", payload: tab.id });
+                return;
+            }
+
+            // Unknown or changed tab: open (or activate) a tab for the URL
+            dispatch({ type: "ADD_TAB", payload: createTab(readLocation(codec)) });
+        };
+
+        window.addEventListener("popstate", handlePopState);
+        return () => window.removeEventListener("popstate", handlePopState);
+    }, [enabled, dispatch, routes, codec]);
+};
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useRef } from "react";
+import { TabsState, WindowSyncMode } from "../types";
+import { resolveTab } from "../routeMatcher";
+import { createSyncTransport, createWindowId, isSharedAction, SyncTransport } from "../windowSync";
+import { TabStore } from "../tabStore";
+
+// How long to wait for the window that has a tab open to confirm it activated it
+const FOCUS_ACK_TIMEOUT = 500;
+
+/**
+ * useWindowSync hook - Synchronizes tabs with other windows of the app
+ * Used internally by TabRouterProvider; wraps the store's dispatch so actions
+ * from anywhere, including code outside React, reach the other windows
+ *
+ * - "shared": all windows share one tab list, each keeps its own active tab
+ * - "focus-existing": opening a tab that is open in another window activates it there instead;
+ *   if that window does not confirm in time, the tab opens here after all
+ */
+export const useWindowSync = (mode: WindowSyncMode, channelName: string, state: TabsState, store: TabStore) => {
+    const windowId = useRef(createWindowId()).current;
+    const transportRef = useRef<SyncTransport | null>(null);
+    const remoteKeys = useRef(new Map<string, string[]>());
+    const pendingFocus = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+    const focusRequests = useRef(0);
+
+    const getOpenKeys = useCallback(() => store.getState().tabs.map((tab) => store.getTabKey(tab)), [store]);
+
+    useEffect(() => {
+        if (mode === "off") {
+            return;
+        }
+        const transport = createSyncTransport(channelName);
+        if (!transport) {
+            return;
+        }
+        transportRef.current = transport;
+        let synced = false;
+
+        const unsubscribe = transport.subscribe((message) => {
+            if (message.source === windowId || ("target" in message && message.target !== windowId)) {
+                return;
+            }
+
+            switch (message.type) {
+                case "action":
+                    if (mode === "shared") {
+                        store.dispatch({
+                            type: "APPLY_REMOTE_ACTION",
+                            payload: { action: message.action, activeTabId: message.activeTabId },
+                        });
+                    }
+                    break;
+                case "sync-request":
+                    if (mode === "shared") {
+                        transport.post({
+                            type: "sync-state",
+                            source: windowId,
+                            target: message.source,
+                            tabs: store.getState().tabs,
+                        });
+                    }
+                    break;
+                case "sync-state":
+                    // Adopt the first answer only so the result does not depend on timing
+                    if (!synced) {
+                        synced = true;
+                        store.dispatch({ type: "SYNC_TABS", payload: message.tabs });
+                    }
+                    break;
+                case "presence":
+                    remoteKeys.current.set(message.source, message.keys);
+                    break;
+                case "presence-request":
+                    transport.post({ type: "presence", source: windowId, keys: getOpenKeys() });
+                    break;
+                case "leave":
+                    remoteKeys.current.delete(message.source);
+                    break;
+                case "focus": {
+                    const tab = store.getState().tabs.find((t) => store.getTabKey(t) === message.key);
+                    if (tab) {
+                        store.dispatch({ type: "SET_ACTIVE_TAB", payload: tab.id });
+                        // Browsers may ignore this without a user gesture in this window
+                        window.focus();
+                        transport.post({
+                            type: "focus-ack",
+                            source: windowId,
+                            target: message.source,
+                            request: message.request,
+                        });
+                    }
+                    break;
+                }
+                case "focus-ack": {
+                    clearTimeout(pendingFocus.current.get(message.request));
+                    pendingFocus.current.delete(message.request);
+                    break;
+                }
+            }
+        });
+
+        transport.post(
+            mode === "shared"
+                ? { type: "sync-request", source: windowId }
+                : { type: "presence-request", source: windowId }
+        );
+
+        const leave = () => transport.post({ type: "leave", source: windowId });
+        window.addEventListener("pagehide", leave);
+
+        return () => {
+            leave();
+            window.removeEventListener("pagehide", leave);
+            unsubscribe();
+            transport.close();
+            transportRef.current = null;
+            remoteKeys.current.clear();
+            pendingFocus.current.forEach((timer) => clearTimeout(timer));
+            pendingFocus.current.clear();
+        };
+    }, [mode, channelName, store, windowId, getOpenKeys]);
+
+    // Announce this window's open tabs so other windows can focus it
+    useEffect(() => {
+        if (mode === "focus-existing") {
+            transportRef.current?.post({ type: "presence", source: windowId, keys: getOpenKeys() });
+        }
+    }, [mode, state.tabs, windowId, getOpenKeys]);
+
+    // Route dispatches through the transport: focus the owning window or broadcast shared actions
+    useEffect(
+        () =>
+            store.enhanceDispatch((next) => (action) => {
+                const transport = transportRef.current;
+                if (!transport) {
+                    next(action);
+                    return;
+                }
+
+                const currentState = store.getState();
+
+                if (mode === "focus-existing" && action.type === "ADD_TAB") {
+                    const key = store.getTabKey(resolveTab(action.payload, store.getRoutes()));
+                    const isOpenHere = currentState.tabs.some((tab) => store.getTabKey(tab) === key);
+                    const owner = isOpenHere
+                        ? undefined
+                        : Array.from(remoteKeys.current).find(([, keys]) => keys.includes(key));
+                    if (owner) {
+                        const request = `${windowId}-${++focusRequests.current}`;
+                        transport.post({ type: "focus", source: windowId, target: owner[0], key, request });
+                        // An owner that does not answer is gone or no longer has the tab: forget its tabs and open it here
+                        pendingFocus.current.set(
+                            request,
+                            setTimeout(() => {
+                                pendingFocus.current.delete(request);
+                                remoteKeys.current.delete(owner[0]);
+                                next(action);
+                            }, FOCUS_ACK_TIMEOUT)
+                        );
+                        return;
+                    }
+                }
+
+                next(action);
+
+                // Tabs evicted to make room are closed explicitly, so every window closes the same ones
+                const evictedIds =
+                    action.type === "ADD_TAB" || action.type === "REOPEN_CLOSED_TABS"
+                        ? currentState.tabs
+                              .filter((tab) => !store.getState().tabs.some((open) => open.id === tab.id))
+                              .map((tab) => tab.id)
+                        : [];
+                if (mode === "shared" && evictedIds.length > 0) {
+                    transport.post({
+                        type: "action",
+                        source: windowId,
+                        action: { type: "CLOSE_TABS", payload: { ids: evictedIds } },
+                        activeTabId: currentState.tabs[currentState.active_index]?.id,
+                    });
+                }
+
+                if (mode === "shared" && isSharedAction(action)) {
+                    transport.post({
+                        type: "action",
+                        source: windowId,
+                        action,
+                        activeTabId: currentState.tabs[currentState.active_index]?.id,
+                    });
+                }
+
+                // Undo follows this window's own history, so the other windows adopt its result
+                if (mode === "shared" && (action.type === "UNDO" || action.type === "REDO")) {
+                    transport.post({
+                        type: "action",
+                        source: windowId,
+                        action: { type: "SYNC_TABS", payload: store.getState().tabs },
+                        activeTabId: currentState.tabs[currentState.active_index]?.id,
+                    });
+                }
+            }),
+        [mode, store, windowId]
+    );
+};
@@ -1,10 +1,120 @@
-export { TabRouterProvider, useTabRouterContext } from "./TabRouterProvider";
+export { TabRouterProvider, useTabRouterContext, useTabStore } from "./TabRouterProvider";
+export { createTabStore } from "./tabStore";
+export { useTabSelector } from "./hooks/useTabSelector";
+export { useTabEvent } from "./hooks/useTabEvent";
 export { useTabRouter } from "./hooks/useTabRouter";
 export { useTabs } from "./hooks/useTabs";
 export { useRouter } from "./hooks/useRouter";
 export { Link } from "./components/Link";
-export type { Tab, TabsState, TabRouterConfig } from "./types";
+export { TabOutlet } from "./components/TabOutlet";
+export { TabPanels } from "./components/TabPanels";
+export { TabBar } from "./components/TabBar";
+export { useTabBar } from "./hooks/useTabBar";
+export { useTabVisibility } from "./hooks/useTabVisibility";
+export { useTabGuard } from "./hooks/useTabGuard";
+export { useTabMeta } from "./hooks/useTabMeta";
+export { useTabSwitcher } from "./hooks/useTabSwitcher";
+export { useUndoShortcuts } from "./hooks/useUndoShortcuts";
+export { useTabGroup } from "./hooks/useTabGroup";
+export { useTabData } from "./hooks/useTabData";
+export { DEFAULT_GROUP_ID } from "./tabGroups";
+export { matchPath, matchRoutes, generatePath } from "./routeMatcher";
+export { createTabRouter, defineQuery } from "./createTabRouter";
+export { lazy } from "./lazy";
+export { createQueryCodec, defaultQueryCodec } from "./queryCodec";
+export { validateParams, ParamsValidationError } from "./paramSchema";
+export {
+    createSessionStorage,
+    createLocalStorage,
+    createMemoryStorage,
+    createIndexedDBStorage,
+} from "./storage";
+export type {
+    Tab,
+    TabInput,
+    TabParams,
+    ParamValue,
+    TabMeta,
+    TabHistoryEntry,
+    TabIdentity,
+    TabsState,
+    TabStripSnapshot,
+    ClosedTab,
+    TabGroup,
+    TabsAction,
+    TabStorage,
+    TabStateMigration,
+    WindowSyncMode,
+    NextActiveTab,
+    EvictionPolicy,
+    RouterScope,
+    RouterScopeOptions,
+    NavigationEvent,
+    TabRouterConfig,
+    RouteParams,
+    RouteDefinition,
+    RouteMatch,
+    RouteComponentProps,
+    RouteErrorProps,
+    QueryCodec,
+    ParamType,
+    ParamSpec,
+    ParamValidator,
+    ParamsSchema,
+    LoaderContext,
+    RouteLoader,
+    TabMiddleware,
+    TabMiddlewareAPI,
+    TabEvent,
+    TabEventMap,
+    TabEventType,
+    TabEventListener,
+    TabEventHandlers,
+    DevToolsOptions,
+} from "./types";
+export { PERSISTED_STATE_VERSION } from "./persistence";
+export type { IndexedDBStorageOptions } from "./storage";
+export type { TabStore, TabsDispatch } from "./tabStore";
+export type { QueryCodecOptions } from "./queryCodec";
+export type { ParamIssue } from "./paramSchema";
+export type { LoaderState, LoadOptions } from "./loaders";
+export type { LazyRouteComponent } from "./lazy";
 export type { UseTabRouterReturn } from "./hooks/useTabRouter";
 export type { UseTabsReturn } from "./hooks/useTabs";
 export type { UseRouterReturn } from "./hooks/useRouter";
 export type { LinkProps } from "./components/Link";
+export type { TabOutletProps } from "./components/TabOutlet";
+export type { TabPanelsProps } from "./components/TabPanels";
+export type { TabBarProps, TabRenderState } from "./components/TabBar";
+export type {
+    UseTabBarOptions,
+    UseTabBarReturn,
+    TabBarElementProps,
+    TabBarButtonProps,
+    TabBarLiveRegionProps,
+    TabDragState,
+} from "./hooks/useTabBar";
+export type { TabVisibility } from "./hooks/useTabVisibility";
+export type { UseTabMetaReturn } from "./hooks/useTabMeta";
+export type { UseTabSwitcherOptions, UseTabSwitcherReturn } from "./hooks/useTabSwitcher";
+export type { UseUndoShortcutsOptions } from "./hooks/useUndoShortcuts";
+export type { UseTabGroupReturn } from "./hooks/useTabGroup";
+export type { UseTabDataReturn } from "./hooks/useTabData";
+export type {
+    QueryParams,
+    QueryDeclaration,
+    PathParams,
+    RouteMap,
+    RoutePath,
+    RouteQuery,
+    RouteTo,
+    RouteHref,
+    ActiveRoute,
+    TypedRouteConfig,
+    TypedRouteComponentProps,
+    TypedTabRouter,
+    TypedTabRouterReturn,
+    TypedRouterReturn,
+    TypedTabsReturn,
+    TypedLinkProps,
+} from "./createTabRouter";
@@ -0,0 +1,49 @@
+import React, { ComponentType, lazy as reactLazy } from "react";
+import { RouteComponentProps, RouteDefinition } from "./types";
+
+export type LazyRouteComponent<P = RouteComponentProps> = ComponentType<P> & {
+    preload: () => Promise<void>;
+};
+
+/**
+ * Load a route component on first render, like React.lazy
+ *
+ * `component: lazy(() => import("./pages/Settings"))` splits the page into
+ * its own chunk. Unlike React.lazy, the component can be preloaded (Link does
+ * this on hover) and a failed import is retried when the tab's error
+ * boundary is reset instead of failing forever.
+ */
+export function lazy<P extends object = RouteComponentProps>(
+    factory: () => Promise<{ default: ComponentType<P> }>
+): LazyRouteComponent<P>;
+// Routes render with RouteComponentProps; the overload above only narrows them for typed routes
+export function lazy(
+    factory: () => Promise<{ default: ComponentType<RouteComponentProps> }>
+): LazyRouteComponent<RouteComponentProps> {
+    let loading: Promise<{ default: ComponentType<RouteComponentProps> }> | null = null;
+
+    const load = () => {
+        if (!loading) {
+            loading = factory().catch((error) => {
+                // React.lazy caches the failure, so the next render needs a fresh one
+                loading = null;
+                Component = reactLazy(load);
+                throw error;
+            });
+        }
+        return loading;
+    };
+    let Component = reactLazy(load);
+
+    const LazyRoute: LazyRouteComponent = Object.assign((props: RouteComponentProps) => <Component {...props} />, {
+        displayName: "LazyRoute",
+        preload: () => load().then(() => undefined),
+    });
+    return LazyRoute;
+}
+
+// Preload a route's component if it was created with lazy(); import failures surface when it renders
+export const preloadRoute = (route: RouteDefinition | undefined): Promise<void> => {
+    const { preload } = (route?.component || {}) as Partial<LazyRouteComponent>;
+    return preload ? preload().catch(() => undefined) : Promise.resolve();
+};
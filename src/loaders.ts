@@ -0,0 +1,161 @@
+import { RouteDefinition, Tab } from "./types";
+import { getParamsError, matchRoutes } from "./routeMatcher";
+import { serializeParams } from "./tabIdentity";
+
+export interface LoaderState<TData = unknown> {
+    data: TData | undefined;
+    error: Error | null;
+    isLoading: boolean;
+    updatedAt: number | null;
+}
+
+export interface LoadOptions {
+    // Re-run the loader even if the cached data is fresh
+    force?: boolean;
+    // Load for a tab that is not open yet
+    prefetch?: boolean;
+}
+
+interface LoaderEntry extends LoaderState {
+    location: string;
+    opened: boolean;
+    controller: AbortController | null;
+    promise: Promise<void> | null;
+}
+
+export interface LoaderCache {
+    get: (key: string) => LoaderState | undefined;
+    load: (key: string, tab: Tab, routes: RouteDefinition[], options?: LoadOptions) => Promise<void>;
+    retain: (openKeys: string[]) => void;
+    clear: () => void;
+    subscribe: (listener: (key: string) => void) => () => void;
+}
+
+// The route whose loader runs for a tab; tabs with invalid params render the route's error component instead
+export const getLoaderRoute = (routes: RouteDefinition[], tab: Tab) => {
+    const match = matchRoutes(routes, tab.path);
+    return match?.route.loader && !getParamsError(match.route, tab) ? match.route : null;
+};
+
+const PREFETCH_STALE_TIME = 30000;
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Cache of route loader results, keyed by tab identity
+ *
+ * Cached data stays visible while it is revalidated (stale-while-revalidate);
+ * it counts as fresh for the route's `staleTime` (default 0). Prefetched data
+ * counts as fresh for at least 30 seconds, so a tab opened right after its
+ * link was hovered does not load again. Loads of closed tabs are aborted
+ * through their AbortSignal and their data is dropped; prefetched data of
+ * tabs that were never opened is dropped once it is 30 seconds old
+ */
+export const createLoaderCache = (): LoaderCache => {
+    const entries = new Map<string, LoaderEntry>();
+    const listeners = new Set<(key: string) => void>();
+
+    const notify = (key: string) => listeners.forEach((listener) => listener(key));
+
+    const drop = (key: string, entry: LoaderEntry) => {
+        entry.controller?.abort();
+        entries.delete(key);
+        notify(key);
+    };
+
+    // Prefetched data that no tab opened in time would otherwise stay cached for the provider's lifetime
+    const dropStalePrefetches = (keep: (key: string) => boolean) =>
+        Array.from(entries.entries())
+            .filter(
+                ([key, entry]) =>
+                    !entry.opened &&
+                    !entry.promise &&
+                    !keep(key) &&
+                    (entry.updatedAt === null || Date.now() - entry.updatedAt >= PREFETCH_STALE_TIME)
+            )
+            .forEach(([key, entry]) => drop(key, entry));
+
+    const settle = (key: string, entry: LoaderEntry, result: Partial<LoaderState>) => {
+        // A newer load replaced this one, or the tab was closed
+        if (entries.get(key) !== entry || entry.controller?.signal.aborted) {
+            return;
+        }
+        entries.set(key, {
+            ...entry,
+            ...result,
+            isLoading: false,
+            updatedAt: result.error ? entry.updatedAt : Date.now(),
+            controller: null,
+            promise: null,
+        });
+        notify(key);
+    };
+
+    return {
+        get: (key) => entries.get(key),
+        load: (key, tab, routes, { force = false, prefetch = false } = {}) => {
+            const route = getLoaderRoute(routes, tab);
+            const loader = route?.loader;
+            if (!route || !loader) {
+                return Promise.resolve();
+            }
+
+            dropStalePrefetches((other) => other === key);
+
+            const location = `${tab.path}?${serializeParams(tab.params)}`;
+            const existing = entries.get(key)?.location === location ? entries.get(key) : undefined;
+            if (existing && !force) {
+                // Prefetches reuse recent data, and prefetched data is used when the tab opens
+                const staleTime =
+                    existing.opened && !prefetch
+                        ? route.staleTime ?? 0
+                        : Math.max(route.staleTime ?? 0, PREFETCH_STALE_TIME);
+                existing.opened = existing.opened || !prefetch;
+                if (existing.promise) {
+                    return existing.promise;
+                }
+                if (!existing.error && existing.updatedAt !== null && Date.now() - existing.updatedAt < staleTime) {
+                    return Promise.resolve();
+                }
+            }
+
+            entries.get(key)?.controller?.abort();
+            const controller = new AbortController();
+            const entry: LoaderEntry = {
+                data: existing?.data,
+                error: existing?.error ?? null,
+                isLoading: true,
+                updatedAt: existing?.updatedAt ?? null,
+                location,
+                opened: !!entries.get(key)?.opened || !prefetch,
+                controller,
+                promise: null,
+            };
+            entry.promise = Promise.resolve()
+                .then(() => loader({ tab, params: tab.params || {}, signal: controller.signal }))
+                .then(
+                    (data) => settle(key, entry, { data, error: null }),
+                    (error) => settle(key, entry, { error: toError(error) })
+                );
+            entries.set(key, entry);
+            notify(key);
+            return entry.promise;
+        },
+        retain: (openKeys) => {
+            Array.from(entries.entries())
+                .filter(([key, entry]) => entry.opened && !openKeys.includes(key))
+                .forEach(([key, entry]) => drop(key, entry));
+            dropStalePrefetches((key) => openKeys.includes(key));
+        },
+        clear: () => {
+            entries.forEach((entry) => entry.controller?.abort());
+            entries.clear();
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
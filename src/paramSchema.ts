@@ -0,0 +1,116 @@
+import { ParamSpec, ParamsSchema, ParamType, ParamValue, TabParams } from "./types";
+
+export interface ParamIssue {
+    param: string;
+    message: string;
+}
+
+// Thrown when a tab's params do not satisfy its route's schema
+export class ParamsValidationError extends Error {
+    readonly issues: ParamIssue[];
+
+    constructor(issues: ParamIssue[]) {
+        super(`Invalid params: ${issues.map((issue) => `${issue.param} ${issue.message}`).join(", ")}`);
+        this.name = "ParamsValidationError";
+        this.issues = issues;
+    }
+}
+
+const isPlainObject = (value: unknown): value is { [key: string]: ParamValue } =>
+    typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Coerce a value to a param type; every coercion accepts its own output, so validated params can be validated again
+const coerce = (type: ParamType, value: ParamValue, items?: ParamType): ParamValue => {
+    switch (type) {
+        case "string":
+            if (value instanceof Date) {
+                return value.toISOString();
+            }
+            if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+                return String(value);
+            }
+            throw new Error("must be a string");
+
+        case "number": {
+            const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+            if (typeof number === "number" && Number.isFinite(number)) {
+                return number;
+            }
+            throw new Error("must be a number");
+        }
+
+        case "boolean":
+            if (typeof value === "boolean") {
+                return value;
+            }
+            if (value === "true" || value === "1" || value === 1) {
+                return true;
+            }
+            if (value === "false" || value === "0" || value === 0) {
+                return false;
+            }
+            throw new Error("must be a boolean");
+
+        case "date": {
+            const date =
+                value instanceof Date ? value : typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+            if (date && !Number.isNaN(date.getTime())) {
+                return date;
+            }
+            throw new Error("must be a date");
+        }
+
+        case "array": {
+            const list = Array.isArray(value) ? value : [value];
+            return items ? list.map((item) => coerce(items, item)) : list;
+        }
+
+        case "object":
+            if (isPlainObject(value)) {
+                return value;
+            }
+            throw new Error("must be an object");
+    }
+};
+
+const applySpec = (spec: ParamSpec, value: ParamValue | undefined): ParamValue | undefined => {
+    if (value === undefined || value === null || value === "") {
+        if (spec.default !== undefined) {
+            return spec.default;
+        }
+        if (spec.optional) {
+            return undefined;
+        }
+        throw new Error("is required");
+    }
+    return coerce(spec.type, value, spec.items);
+};
+
+/**
+ * Validate and coerce params against a route's schema
+ * Params the schema does not declare are kept as they are. Throws a
+ * ParamsValidationError listing every invalid param
+ */
+export const validateParams = (schema: ParamsSchema, params: TabParams): TabParams => {
+    const result: TabParams = { ...params };
+    const issues: ParamIssue[] = [];
+
+    Object.keys(schema).forEach((param) => {
+        const rule = schema[param];
+        try {
+            const value = typeof rule === "function" ? rule(params[param]) : applySpec(rule, params[param]);
+            if (value === undefined) {
+                delete result[param];
+            } else {
+                result[param] = value;
+            }
+        } catch (error) {
+            issues.push({ param, message: error instanceof Error ? error.message : String(error) });
+        }
+    });
+
+    if (issues.length > 0) {
+        throw new ParamsValidationError(issues);
+    }
+    return result;
+};
@@ -0,0 +1,258 @@
+import {
+    ClosedTab,
+    Tab,
+    TabGroup,
+    TabHistoryEntry,
+    TabParams,
+    TabRouterConfig,
+    TabsState,
+    TabStateMigration,
+} from "./types";
+import { createTab } from "./tabIdentity";
+import { normalizeGroups } from "./tabGroups";
+
+// Version of the persisted state written by this release
+export const PERSISTED_STATE_VERSION = 1;
+
+interface PersistedEnvelope {
+    version: number;
+    state: unknown;
+}
+
+// Built-in migrations, keyed by the version they upgrade to
+const builtInMigrations: Record<number, TabStateMigration> = {
+    // Version 0 stored the bare tabs array
+    1: (tabs) => ({ tabs }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isParamValue = (value: unknown): boolean =>
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date ||
+    (Array.isArray(value) && value.every(isParamValue)) ||
+    (isRecord(value) && Object.values(value).every(isParamValue));
+
+const isParams = (value: unknown): value is TabParams =>
+    isRecord(value) && Object.values(value).every(isParamValue);
+
+const isHistoryEntry = (value: unknown): value is TabHistoryEntry =>
+    isRecord(value) &&
+    typeof value.path === "string" &&
+    (value.params === undefined || isParams(value.params)) &&
+    (value.hash === undefined || typeof value.hash === "string");
+
+// Dates in params are stored as { $date: "<ISO string>" } so they are restored as Dates
+const DATE_KEY = "$date";
+
+function replaceDates(this: Record<string, unknown>, key: string, value: unknown) {
+    return this[key] instanceof Date ? { [DATE_KEY]: value } : value;
+}
+
+const reviveDates = (_key: string, value: unknown) =>
+    isRecord(value) && Object.keys(value).length === 1 && typeof value[DATE_KEY] === "string"
+        ? new Date(value[DATE_KEY] as string)
+        : value;
+
+const validateTab = (value: unknown, index: number): Tab => {
+    const fail = (reason: string): never => {
+        throw new Error(`Invalid persisted tab at index ${index}: ${reason}`);
+    };
+
+    if (!isRecord(value)) {
+        return fail("not an object");
+    }
+    if (typeof value.path !== "string") {
+        return fail("path must be a string");
+    }
+    if (value.id !== undefined && typeof value.id !== "string") {
+        return fail("id must be a string");
+    }
+    if (value.params !== undefined && !isParams(value.params)) {
+        return fail("params must be a record of param values");
+    }
+    if (value.hash !== undefined && typeof value.hash !== "string") {
+        return fail("hash must be a string");
+    }
+    if (value.history !== undefined && !(Array.isArray(value.history) && value.history.every(isHistoryEntry))) {
+        return fail("history must be an array of entries");
+    }
+    if (value.history_index !== undefined && !Number.isInteger(value.history_index)) {
+        return fail("history_index must be an integer");
+    }
+    if (
+        (value.title !== undefined && typeof value.title !== "string") ||
+        (value.icon !== undefined && typeof value.icon !== "string")
+    ) {
+        return fail("title and icon must be strings");
+    }
+    if (
+        (value.pinned !== undefined && typeof value.pinned !== "boolean") ||
+        (value.dirty !== undefined && typeof value.dirty !== "boolean")
+    ) {
+        return fail("pinned and dirty must be booleans");
+    }
+    if (value.meta !== undefined && !isRecord(value.meta)) {
+        return fail("meta must be an object");
+    }
+
+    // Tabs persisted before tabs had a stable identity get an id here
+    return createTab(value as unknown as Tab);
+};
+
+// Recently closed tabs are a convenience, so invalid entries are dropped instead of failing hydration
+const readClosedTabs = (value: unknown): ClosedTab[] => {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.flatMap((closed, index) => {
+        if (!isRecord(closed) || !Number.isInteger(closed.index) || typeof closed.batch !== "string") {
+            return [];
+        }
+        try {
+            const group = typeof closed.group === "string" ? closed.group : undefined;
+            return [{ tab: validateTab(closed.tab, index), index: closed.index as number, batch: closed.batch, group }];
+        } catch {
+            return [];
+        }
+    });
+};
+
+// The split layout is optional too; groups are checked against the tabs by normalizeGroups
+const readGroups = (value: unknown): TabGroup[] | undefined => {
+    if (!Array.isArray(value)) {
+        return undefined;
+    }
+    const groups = value.filter(
+        (group): group is TabGroup =>
+            isRecord(group) &&
+            typeof group.id === "string" &&
+            Array.isArray(group.tab_ids) &&
+            group.tab_ids.every((id) => typeof id === "string") &&
+            (group.active_tab_id === undefined || typeof group.active_tab_id === "string")
+    );
+    return groups.length > 1 ? groups : undefined;
+};
+
+const readEnvelope = (parsed: unknown): PersistedEnvelope => {
+    if (Array.isArray(parsed)) {
+        return { version: 0, state: parsed };
+    }
+    if (isRecord(parsed) && Number.isInteger(parsed.version)) {
+        return { version: parsed.version as number, state: parsed.state };
+    }
+    throw new Error("Persisted state is not a versioned envelope");
+};
+
+const migrate = (envelope: PersistedEnvelope, config: Required<TabRouterConfig>): unknown => {
+    const migrations = { ...builtInMigrations, ...config.migrations };
+    let { version, state } = envelope;
+
+    if (version > config.version) {
+        throw new Error(`Persisted state version ${version} is newer than supported version ${config.version}`);
+    }
+
+    while (version < config.version) {
+        const migration = migrations[version + 1];
+        if (!migration) {
+            throw new Error(`No migration from persisted state version ${version} to ${version + 1}`);
+        }
+        state = migration(state);
+        version += 1;
+    }
+
+    return state;
+};
+
+const clampIndex = (storedIndex: string | null, length: number): number => {
+    const index = Number(storedIndex);
+    if (!Number.isInteger(index) || index < 0) {
+        return 0;
+    }
+    return Math.min(index, length - 1);
+};
+
+/**
+ * Parse, migrate and validate the persisted state
+ * Returns null when nothing usable is stored; invalid data is reported to
+ * `onHydrationError` so the provider can fall back to `initialPath`
+ */
+export const parseStoredState = (
+    storedTabs: string | null,
+    storedActiveIndex: string | null,
+    config: Required<TabRouterConfig>
+): TabsState | null => {
+    if (!storedTabs) {
+        return null;
+    }
+
+    try {
+        const state = migrate(readEnvelope(JSON.parse(storedTabs, reviveDates)), config);
+        if (!isRecord(state) || !Array.isArray(state.tabs)) {
+            throw new Error("Persisted state has no tabs array");
+        }
+        if (state.tabs.length === 0) {
+            return null;
+        }
+
+        const tabs = state.tabs.map(validateTab);
+        const restored: TabsState = {
+            tabs,
+            active_index: clampIndex(storedActiveIndex, tabs.length),
+            closed_tabs: readClosedTabs(state.closed_tabs),
+            groups: readGroups(state.groups),
+        };
+        return normalizeGroups(restored, restored);
+    } catch (error) {
+        config.onHydrationError(error instanceof Error ? error : new Error(String(error)));
+        return null;
+    }
+};
+
+// Read the persisted state, asynchronously if the storage adapter is async
+export const readStoredState = (
+    config: Required<TabRouterConfig>
+): TabsState | null | Promise<TabsState | null> => {
+    const { storage, storageKey, activeTabStorageKey } = config;
+    const storedTabs = storage.get(storageKey);
+    const storedActiveIndex = storage.get(activeTabStorageKey);
+
+    if (storedTabs instanceof Promise || storedActiveIndex instanceof Promise) {
+        return Promise.all([storedTabs, storedActiveIndex]).then(([tabs, activeIndex]) =>
+            parseStoredState(tabs, activeIndex, config)
+        );
+    }
+    return parseStoredState(storedTabs, storedActiveIndex, config);
+};
+
+export const writeState = (config: Required<TabRouterConfig>, state: TabsState) => {
+    const { storage, storageKey, activeTabStorageKey } = config;
+    const envelope: PersistedEnvelope = {
+        version: config.version,
+        state: { tabs: state.tabs, closed_tabs: state.closed_tabs || [], groups: state.groups },
+    };
+    const results = [
+        storage.set(storageKey, JSON.stringify(envelope, replaceDates)),
+        storage.set(activeTabStorageKey, String(state.active_index)),
+    ];
+    // Persistence failures must not break navigation
+    results.forEach((result) => {
+        if (result instanceof Promise) {
+            result.catch(() => undefined);
+        }
+    });
+};
+
+// Delete the persisted state, e.g. of a nested router whose parent tab was closed
+export const removeState = (config: Required<TabRouterConfig>) => {
+    const { storage, storageKey, activeTabStorageKey } = config;
+    [storage.remove(storageKey), storage.remove(activeTabStorageKey)].forEach((result) => {
+        if (result instanceof Promise) {
+            result.catch(() => undefined);
+        }
+    });
+};
@@ -0,0 +1,134 @@
+import { ParamValue, QueryCodec, TabParams } from "./types";
+
+export interface QueryCodecOptions {
+    arrayFormat?: "repeat" | "bracket" | "comma";
+    nested?: boolean;
+    parseNumbers?: boolean;
+    parseBooleans?: boolean;
+    parseDates?: boolean;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
+const isPlainObject = (value: unknown): value is { [key: string]: ParamValue } =>
+    typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const encode = (value: string) => encodeURIComponent(value);
+
+// Brackets stay readable in keys: filter[status]=open
+const encodeKey = (key: string) => encode(key).replace(/%5B/g, "[").replace(/%5D/g, "]");
+
+// Keys that would reach Object.prototype instead of the params
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const getOwn = (target: { [key: string]: ParamValue }, key: string): ParamValue | undefined =>
+    Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+
+// "a[b][]" -> ["a", "b", ""]
+const splitKey = (key: string): string[] => {
+    const open = key.indexOf("[");
+    if (open <= 0 || !key.endsWith("]")) {
+        return [key];
+    }
+    return [key.slice(0, open), ...key.slice(open + 1, -1).split("][")];
+};
+
+/**
+ * Create a query codec
+ *
+ * - Arrays are written as repeated keys (`tag=a&tag=b`), with brackets
+ *   (`tag[]=a&tag[]=b`) or comma separated (`tag=a,b`); repeated keys always parse as arrays
+ * - Nested objects use bracket keys (`filter[status]=open`)
+ * - Dates are written as ISO strings and parsed back into Dates
+ * - Only canonical numbers are parsed, so "007" and "1e3" stay strings
+ * - "true" and "false" are parsed as booleans
+ * - `null` and `undefined` values are left out
+ * - Keys with a `__proto__`, `constructor` or `prototype` segment are ignored when parsing
+ */
+export const createQueryCodec = ({
+    arrayFormat = "repeat",
+    nested = true,
+    parseNumbers = true,
+    parseBooleans = true,
+    parseDates = true,
+}: QueryCodecOptions = {}): QueryCodec => {
+    const stringifyScalar = (value: ParamValue): string =>
+        value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+    const parseScalar = (value: string): ParamValue => {
+        if (parseBooleans && (value === "true" || value === "false")) {
+            return value === "true";
+        }
+        if (parseNumbers && value !== "" && String(Number(value)) === value) {
+            return Number(value);
+        }
+        if (parseDates && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value))) {
+            return new Date(value);
+        }
+        return value;
+    };
+
+    const stringifyEntry = (key: string, value: ParamValue | undefined): string[] => {
+        if (value === null || value === undefined) {
+            return [];
+        }
+        if (Array.isArray(value)) {
+            const items = value.filter((item) => item !== null && item !== undefined);
+            if (arrayFormat === "comma") {
+                return [`${encodeKey(key)}=${items.map((item) => encode(stringifyScalar(item))).join(",")}`];
+            }
+            const itemKey = arrayFormat === "bracket" ? `${key}[]` : key;
+            return items.map((item) => `${encodeKey(itemKey)}=${encode(stringifyScalar(item))}`);
+        }
+        if (isPlainObject(value)) {
+            if (!nested) {
+                return [`${encodeKey(key)}=${encode(JSON.stringify(value))}`];
+            }
+            return Object.entries(value).flatMap(([childKey, child]) => stringifyEntry(`${key}[${childKey}]`, child));
+        }
+        return [`${encodeKey(key)}=${encode(stringifyScalar(value))}`];
+    };
+
+    // Set a value at a bracket path; "" appends to an array, repeated keys become arrays
+    const assign = (target: { [key: string]: ParamValue }, path: string[], value: ParamValue) => {
+        const [head, ...rest] = path;
+        const isLeaf = rest.length === 0;
+        if (isLeaf || (rest.length === 1 && rest[0] === "")) {
+            const existing = getOwn(target, head);
+            if (existing === undefined) {
+                target[head] = isLeaf ? value : [value];
+            } else {
+                target[head] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+            }
+            return;
+        }
+        const child = getOwn(target, head);
+        const next = isPlainObject(child) ? child : {};
+        target[head] = next;
+        assign(next, rest, value);
+    };
+
+    return {
+        parse: (search) => {
+            const params: TabParams = {};
+            new URLSearchParams(search.startsWith("?") ? search.slice(1) : search).forEach((raw, key) => {
+                const path = nested ? splitKey(key) : [key];
+                if (path.some((segment) => UNSAFE_KEYS.has(segment))) {
+                    return;
+                }
+                const value =
+                    arrayFormat === "comma" && raw.includes(",")
+                        ? raw.split(",").map(parseScalar)
+                        : parseScalar(raw);
+                assign(params, path, value);
+            });
+            return params;
+        },
+        stringify: (params) =>
+            Object.entries(params)
+                .flatMap(([key, value]) => stringifyEntry(key, value))
+                .join("&"),
+    };
+};
+
+export const defaultQueryCodec = createQueryCodec();
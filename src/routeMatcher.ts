@@ -0,0 +1,146 @@
+import { RouteDefinition, RouteMatch, RouteParams, Tab, TabParams } from "./types";
+import { validateParams } from "./paramSchema";
+
+const splitPath = (path: string): string[] => path.split("/").filter(Boolean);
+
+const decodeSegment = (segment: string): string => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+/**
+ * Matches a single route pattern against a path
+ *
+ * Supported segments:
+ * - Static segments: `/users`
+ * - Dynamic segments: `/users/:id`
+ * - Optional trailing segments: `/users/:id?`
+ * - Catch-all segments: `/files/*` (stored as `params["*"]`) or `/files/*rest`
+ *
+ * Returns the extracted params, or null if the path does not match
+ */
+export const matchPath = (pattern: string, path: string): RouteParams | null => {
+    const patternSegments = splitPath(pattern);
+    const pathSegments = splitPath(path);
+    const params: RouteParams = {};
+
+    for (let i = 0; i < patternSegments.length; i++) {
+        const segment = patternSegments[i];
+        const value = pathSegments[i];
+
+        if (segment.startsWith("*")) {
+            params[segment.slice(1) || "*"] = pathSegments.slice(i).map(decodeSegment).join("/");
+            return params;
+        }
+
+        if (segment.startsWith(":")) {
+            const optional = segment.endsWith("?");
+            const name = optional ? segment.slice(1, -1) : segment.slice(1);
+            if (value === undefined) {
+                if (optional) {
+                    continue;
+                }
+                return null;
+            }
+            params[name] = decodeSegment(value);
+            continue;
+        }
+
+        if (value !== segment) {
+            return null;
+        }
+    }
+
+    return pathSegments.length <= patternSegments.length ? params : null;
+};
+
+/**
+ * Builds a path from a route pattern and its params, the inverse of matchPath
+ * Missing optional and catch-all params are left out; a missing required
+ * param throws
+ */
+export const generatePath = (
+    pattern: string,
+    params: Record<string, string | number | undefined> = {}
+): string => {
+    const segments = splitPath(pattern).flatMap((segment) => {
+        if (segment.startsWith("*")) {
+            const value = params[segment.slice(1) || "*"];
+            return value === undefined ? [] : splitPath(String(value)).map(encodeURIComponent);
+        }
+
+        if (segment.startsWith(":")) {
+            const optional = segment.endsWith("?");
+            const name = optional ? segment.slice(1, -1) : segment.slice(1);
+            const value = params[name];
+            if (value === undefined) {
+                if (optional) {
+                    return [];
+                }
+                throw new Error(`Missing param "${name}" for route ${pattern}`);
+            }
+            return [encodeURIComponent(String(value))];
+        }
+
+        return [segment];
+    });
+
+    return `/${segments.join("/")}`;
+};
+
+/**
+ * Finds the first route whose pattern matches the path
+ * Routes are tested in order, so more specific routes should come first
+ */
+export const matchRoutes = (routes: RouteDefinition[], path: string): RouteMatch | null => {
+    for (const route of routes) {
+        const params = matchPath(route.path, path);
+        if (params) {
+            return { route, params };
+        }
+    }
+    return null;
+};
+
+// Coerce params with the route's schema; invalid params are kept as they are
+// and reported by getParamsError when the tab renders
+const coerceParams = (route: RouteDefinition, params: TabParams): TabParams => {
+    if (!route.schema) {
+        return params;
+    }
+    try {
+        return validateParams(route.schema, params);
+    } catch {
+        return params;
+    }
+};
+
+// The validation error of a tab's params, or null when they satisfy the route's schema
+export const getParamsError = (route: RouteDefinition, tab: Tab): Error | null => {
+    if (!route.schema) {
+        return null;
+    }
+    try {
+        validateParams(route.schema, tab.params || {});
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error : new Error(String(error));
+    }
+};
+
+// Merge params extracted from the matching route pattern into the tab params,
+// coerce them with the route's schema and use the route title unless the tab has its own
+export const resolveTab = (tab: Tab, routes: RouteDefinition[]): Tab => {
+    const match = matchRoutes(routes, tab.path);
+    if (!match) {
+        return tab;
+    }
+    return {
+        ...tab,
+        params: coerceParams(match.route, { ...tab.params, ...match.params }),
+        title: tab.title ?? match.route.title,
+    };
+};
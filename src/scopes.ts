@@ -0,0 +1,52 @@
+import { TabRouterConfig } from "./types";
+
+export interface ScopeRegistry {
+    register: (tabId: string, storageKey: string, cleanup: () => void) => void;
+    cleanupClosed: (openTabIds: string[]) => void;
+    cleanupAll: () => void;
+}
+
+/**
+ * Registry of the nested routers mounted inside a router's tabs
+ * Registrations outlive the nested provider, which unmounts whenever its tab
+ * is hidden, so that its state can still be removed once the tab is closed
+ */
+export const createScopeRegistry = (): ScopeRegistry => {
+    const scopes = new Map<string, Map<string, () => void>>();
+
+    const cleanupTab = (tabId: string) => {
+        scopes.get(tabId)?.forEach((cleanup) => cleanup());
+        scopes.delete(tabId);
+    };
+
+    return {
+        register: (tabId, storageKey, cleanup) => {
+            const tabScopes = scopes.get(tabId) || new Map<string, () => void>();
+            tabScopes.set(storageKey, cleanup);
+            scopes.set(tabId, tabScopes);
+        },
+        cleanupClosed: (openTabIds) => {
+            Array.from(scopes.keys())
+                .filter((tabId) => !openTabIds.includes(tabId))
+                .forEach(cleanupTab);
+        },
+        cleanupAll: () => {
+            Array.from(scopes.keys()).forEach(cleanupTab);
+        },
+    };
+};
+
+// Namespace a nested router's storage under its parent tab so nested routers never share keys
+export const scopeConfig = (
+    config: Required<TabRouterConfig>,
+    userConfig: TabRouterConfig,
+    parentConfig: Required<TabRouterConfig>,
+    parentTabId: string
+): Required<TabRouterConfig> => ({
+    ...config,
+    storage: userConfig.storage ?? parentConfig.storage,
+    storageKey: `${parentConfig.storageKey}:${parentTabId}:${config.storageKey}`,
+    activeTabStorageKey: `${parentConfig.activeTabStorageKey}:${parentTabId}:${config.activeTabStorageKey}`,
+    // The URL belongs to the root router
+    urlSync: false,
+});
@@ -0,0 +1,106 @@
+import { TabStorage } from "./types";
+
+// Web Storage (sessionStorage/localStorage) adapter, a no-op during SSR
+const createWebStorage = (getStorage: () => Storage): TabStorage => ({
+    get: (key) => (typeof window === "undefined" ? null : getStorage().getItem(key)),
+    set: (key, value) => {
+        if (typeof window !== "undefined") {
+            getStorage().setItem(key, value);
+        }
+    },
+    remove: (key) => {
+        if (typeof window !== "undefined") {
+            getStorage().removeItem(key);
+        }
+    },
+});
+
+/**
+ * sessionStorage adapter (default)
+ * Tabs survive reloads but not closing the browser tab
+ */
+export const createSessionStorage = (): TabStorage => createWebStorage(() => window.sessionStorage);
+
+/**
+ * localStorage adapter
+ * Tabs survive browser restarts and are shared by all windows of the origin
+ */
+export const createLocalStorage = (): TabStorage => createWebStorage(() => window.localStorage);
+
+/**
+ * In-memory adapter
+ * Nothing is persisted across page loads, useful for tests and to disable persistence
+ */
+export const createMemoryStorage = (initialData: Record<string, string> = {}): TabStorage => {
+    const data = new Map(Object.entries(initialData));
+    return {
+        get: (key) => data.get(key) ?? null,
+        set: (key, value) => {
+            data.set(key, value);
+        },
+        remove: (key) => {
+            data.delete(key);
+        },
+    };
+};
+
+export interface IndexedDBStorageOptions {
+    databaseName?: string;
+    storeName?: string;
+}
+
+/**
+ * IndexedDB adapter (async)
+ * Tabs survive browser restarts without the size limits of localStorage
+ */
+export const createIndexedDBStorage = ({
+    databaseName = "tabrouter",
+    storeName = "tabs",
+}: IndexedDBStorageOptions = {}): TabStorage => {
+    let database: Promise<IDBDatabase> | null = null;
+
+    const openDatabase = (): Promise<IDBDatabase> => {
+        if (!database) {
+            database = new Promise((resolve, reject) => {
+                const request = indexedDB.open(databaseName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(storeName);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return database;
+    };
+
+    const run = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) =>
+        openDatabase().then(
+            (db) =>
+                new Promise<T>((resolve, reject) => {
+                    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+                    request.onsuccess = () => resolve(request.result);
+                    request.onerror = () => reject(request.error);
+                })
+        );
+
+    return {
+        get: (key) => {
+            if (typeof indexedDB === "undefined") {
+                return null;
+            }
+            return run<unknown>("readonly", (store) => store.get(key)).then((value) =>
+                typeof value === "string" ? value : null
+            );
+        },
+        set: async (key, value) => {
+            if (typeof indexedDB !== "undefined") {
+                await run("readwrite", (store) => store.put(value, key));
+            }
+        },
+        remove: async (key) => {
+            if (typeof indexedDB !== "undefined") {
+                await run("readwrite", (store) => store.delete(key));
+            }
+        },
+    };
+};
@@ -0,0 +1,41 @@
+import { Tab, TabEvent, TabsAction, TabsState } from "./types";
+import { serializeParams } from "./tabIdentity";
+
+/**
+ * Lifecycle events caused by a state change
+ * Derived from the states rather than the action, so tabs opened by a
+ * hydration, another window or a custom middleware are reported too
+ */
+export const getTabEvents = (previous: TabsState, next: TabsState, action: TabsAction): TabEvent[] => {
+    const previousById = new Map(previous.tabs.map((tab) => [tab.id, tab]));
+    const nextIds = new Set(next.tabs.map((tab) => tab.id));
+    const events: TabEvent[] = [];
+
+    previous.tabs
+        .filter((tab) => !nextIds.has(tab.id))
+        .forEach((tab) => events.push({ type: "tabClosed", tab, action }));
+
+    next.tabs.forEach((tab) => {
+        const before = previousById.get(tab.id);
+        if (!before) {
+            events.push({ type: "tabOpened", tab, action });
+        } else if (before.params !== tab.params && serializeParams(before.params) !== serializeParams(tab.params)) {
+            events.push({ type: "paramsUpdated", tab, previousParams: before.params || {}, action });
+        }
+    });
+
+    // Tabs that stayed open but changed their order
+    const kept = (tabs: Tab[]) => tabs.filter((tab) => previousById.has(tab.id) && nextIds.has(tab.id));
+    const keptBefore = kept(previous.tabs);
+    if (kept(next.tabs).some((tab, index) => tab.id !== keptBefore[index].id)) {
+        events.push({ type: "reordered", tabs: next.tabs, action });
+    }
+
+    const activeTab = next.tabs[next.active_index];
+    const previousActive = previous.tabs[previous.active_index] || null;
+    if (activeTab && activeTab.id !== previousActive?.id) {
+        events.push({ type: "tabActivated", tab: activeTab, previous: previousActive, action });
+    }
+
+    return events;
+};
@@ -0,0 +1,78 @@
+import { Tab, TabGroup, TabsState } from "./types";
+
+// Id of the implicit group holding every tab while the view is not split
+export const DEFAULT_GROUP_ID = "main";
+
+let groupCounter = 0;
+
+export const createGroupId = (): string => {
+    groupCounter += 1;
+    return `group-${Date.now().toString(36)}-${groupCounter.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// The explicit groups, or one implicit group with all tabs when the view is not split
+export const getGroups = (state: TabsState): TabGroup[] =>
+    state.groups && state.groups.length > 0
+        ? state.groups
+        : [
+            {
+                id: DEFAULT_GROUP_ID,
+                tab_ids: state.tabs.map((tab) => tab.id),
+                active_tab_id: state.tabs[state.active_index]?.id,
+            },
+        ];
+
+export const findGroupOf = (state: TabsState, tabId: string | undefined): TabGroup | undefined =>
+    getGroups(state).find((group) => tabId !== undefined && group.tab_ids.includes(tabId));
+
+// The focused group is the one holding the active tab
+export const getFocusedGroup = (state: TabsState): TabGroup | undefined =>
+    findGroupOf(state, state.tabs[state.active_index]?.id) ?? getGroups(state)[0];
+
+// A group's tabs in bar order
+export const getGroupTabs = (state: TabsState, group: TabGroup | undefined): Tab[] =>
+    group ? state.tabs.filter((tab) => group.tab_ids.includes(tab.id)) : [];
+
+// When a group's active tab is gone, activate its right neighbour, or the left one at the end
+const pickGroupActive = (previous: TabGroup | undefined, group: TabGroup): string | undefined => {
+    if (group.active_tab_id && group.tab_ids.includes(group.active_tab_id)) {
+        return group.active_tab_id;
+    }
+    const previousIds = previous?.tab_ids || [];
+    const position = previousIds.indexOf(previous?.active_tab_id || "");
+    const right = previousIds.slice(position + 1).find((id) => group.tab_ids.includes(id));
+    const left = previousIds.slice(0, Math.max(position, 0)).reverse().find((id) => group.tab_ids.includes(id));
+    return right ?? left ?? group.tab_ids[0];
+};
+
+/**
+ * Bring the groups in line with the tabs after an action
+ * Closed tabs leave their group, new tabs join the previously focused group,
+ * the active tab becomes its group's active tab, empty groups are removed and
+ * a single remaining group collapses back into the unsplit view
+ */
+export const normalizeGroups = (previous: TabsState, state: TabsState): TabsState => {
+    if (!state.groups) {
+        return state;
+    }
+
+    const tabIds = state.tabs.map((tab) => tab.id);
+    const assigned = new Set(state.groups.flatMap((group) => group.tab_ids));
+    const unassigned = tabIds.filter((id) => !assigned.has(id));
+    const focusedId = getFocusedGroup(previous)?.id;
+    const targetId = state.groups.some((group) => group.id === focusedId) ? focusedId : state.groups[0]?.id;
+    const activeId = state.tabs[state.active_index]?.id;
+
+    const groups = state.groups
+        .map((group) => {
+            const members = new Set(group.id === targetId ? [...group.tab_ids, ...unassigned] : group.tab_ids);
+            const next: TabGroup = { ...group, tab_ids: tabIds.filter((id) => members.has(id)) };
+            const previousGroup = getGroups(previous).find((g) => g.id === group.id);
+            next.active_tab_id =
+                activeId && members.has(activeId) ? activeId : pickGroupActive(previousGroup, next);
+            return next;
+        })
+        .filter((group) => group.tab_ids.length > 0);
+
+    return { ...state, groups: groups.length > 1 ? groups : undefined };
+};
@@ -0,0 +1,91 @@
+import { Tab, TabHistoryEntry, TabInput } from "./types";
+import { serializeParamValue } from "./tabIdentity";
+
+const sameParams = (a: TabInput["params"] = {}, b: TabInput["params"] = {}): boolean => {
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return (
+        aKeys.length === bKeys.length &&
+        aKeys.every((key) => key in b && serializeParamValue(a[key]) === serializeParamValue(b[key]))
+    );
+};
+
+const toEntry = (tab: TabInput): TabHistoryEntry => ({
+    path: tab.path,
+    params: tab.params || {},
+    hash: tab.hash,
+    title: tab.title,
+});
+
+// Tabs persisted before per-tab history only have their current location
+export const getHistory = (tab: Tab): TabHistoryEntry[] => {
+    return tab.history?.length ? tab.history : [toEntry(tab)];
+};
+
+export const getHistoryIndex = (tab: Tab): number => {
+    const history = getHistory(tab);
+    const index = tab.history_index ?? history.length - 1;
+    return Math.min(Math.max(index, 0), history.length - 1);
+};
+
+// Start a fresh history for a newly opened tab
+export const withHistory = (tab: Tab): Tab => ({
+    ...tab,
+    history: [toEntry(tab)],
+    history_index: 0,
+});
+
+/**
+ * Navigate a tab to a new location, dropping any forward entries
+ * Navigating to the current location does not add an entry, it only updates the hash
+ */
+export const pushHistoryEntry = (tab: Tab, location: TabInput): Tab => {
+    const index = getHistoryIndex(tab);
+    const history = getHistory(tab).slice(0, index + 1);
+    const current = history[index];
+    const entry = toEntry(location);
+
+    if (current.path === entry.path && sameParams(current.params, entry.params)) {
+        history[index] = { ...current, hash: entry.hash };
+        return { ...tab, path: entry.path, params: entry.params, hash: entry.hash, history, history_index: index };
+    }
+
+    return {
+        ...tab,
+        ...entry,
+        history: [...history, entry],
+        history_index: history.length,
+    };
+};
+
+export const canGo = (tab: Tab | null, delta: number): boolean => {
+    if (!tab || delta === 0) {
+        return false;
+    }
+    const target = getHistoryIndex(tab) + delta;
+    return target >= 0 && target < getHistory(tab).length;
+};
+
+// Move through a tab's history, returning null if the target entry does not exist
+export const goHistory = (tab: Tab, delta: number): Tab | null => {
+    if (!canGo(tab, delta)) {
+        return null;
+    }
+    const history = getHistory(tab);
+    const target = getHistoryIndex(tab) + delta;
+    return {
+        ...tab,
+        ...history[target],
+        hash: history[target].hash,
+        history,
+        history_index: target,
+    };
+};
+
+// Keep the current history entry in sync when a tab's params change in place
+export const updateCurrentEntry = (tab: Tab): Tab => {
+    const history = [...getHistory(tab)];
+    const index = getHistoryIndex(tab);
+    history[index] = toEntry(tab);
+    return { ...tab, history, history_index: index };
+};
@@ -0,0 +1,62 @@
+import { ParamValue, Tab, TabIdentity, TabInput } from "./types";
+
+let tabCounter = 0;
+
+// Generate a unique, stable tab id
+export const createTabId = (): string => {
+    tabCounter += 1;
+    return `tab-${Date.now().toString(36)}-${tabCounter.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// Create a full tab from user input, generating an id if needed
+export const createTab = (input: TabInput): Tab => ({
+    ...input,
+    id: input.id || createTabId(),
+    params: input.params || {},
+});
+
+// Scalars compare by their string form, so 1 and "1" are the same param value
+export const serializeParamValue = (value: ParamValue): string => {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+};
+
+export const serializeParams = (params: TabInput["params"] = {}): string =>
+    JSON.stringify(
+        Object.keys(params)
+            .sort()
+            .map((key) => [key, serializeParamValue(params[key])])
+    );
+
+/**
+ * Create the function that computes a tab's identity key
+ * Two tabs with the same key are considered the same tab, so opening one
+ * activates the other instead of adding a duplicate
+ */
+export const createTabKeyGetter = (identity: TabIdentity): ((tab: TabInput) => string) => {
+    if (typeof identity === "function") {
+        return identity;
+    }
+    if (identity === "path+params") {
+        return (tab) => `${tab.path}?${serializeParams(tab.params)}`;
+    }
+    return (tab) => tab.path;
+};
+
+/**
+ * Resolve a tab reference (id or path) to an open tab
+ * Ids take precedence; for paths the active tab is preferred over other tabs with the same path
+ */
+export const findTab = (tabs: Tab[], activeIndex: number, ref: string): Tab | undefined => {
+    const byId = tabs.find((tab) => tab.id === ref);
+    if (byId) {
+        return byId;
+    }
+    const activeTab = tabs[activeIndex];
+    if (activeTab?.path === ref) {
+        return activeTab;
+    }
+    return tabs.find((tab) => tab.path === ref);
+};
@@ -0,0 +1,19 @@
+import { Tab } from "./types";
+
+// Keep pinned tabs at the front, preserving the relative order within each group
+export const sortPinned = (tabs: Tab[]): Tab[] => [
+    ...tabs.filter((tab) => tab.pinned),
+    ...tabs.filter((tab) => !tab.pinned),
+];
+
+// Find the new index of a tab after the tab list changed, falling back to the first tab
+export const indexOfTab = (tabs: Tab[], tabId: string | undefined): number => {
+    const index = tabs.findIndex((tab) => tab.id === tabId);
+    return index === -1 ? 0 : index;
+};
+
+// Clamp a reorder target so pinned tabs stay in front of unpinned tabs
+export const clampToPinnedGroup = (tabs: Tab[], fromIndex: number, toIndex: number): number => {
+    const pinnedCount = tabs.filter((tab) => tab.pinned).length;
+    return tabs[fromIndex]?.pinned ? Math.min(toIndex, pinnedCount - 1) : Math.max(toIndex, pinnedCount);
+};
@@ -0,0 +1,321 @@
+import {
+    RouteDefinition,
+    Tab,
+    TabEvent,
+    TabEventListener,
+    TabEventType,
+    TabInput,
+    TabMiddleware,
+    TabMiddlewareAPI,
+    TabParams,
+    TabRouterConfig,
+    TabsAction,
+    TabsState,
+} from "./types";
+import { createTabsReducer, defaultConfig, getInitialState } from "./tabsReducer";
+import { readStoredState } from "./persistence";
+import { createTab, createTabKeyGetter, findTab } from "./tabIdentity";
+import { canGo, getHistory, getHistoryIndex } from "./tabHistory";
+import { toTabInput } from "./url";
+import { resolveTab } from "./routeMatcher";
+import { findEvictionCandidates } from "./eviction";
+import { createGuardChecks, createGuardRegistry, GuardChecks, GuardRegistry } from "./guards";
+import { getTabEvents } from "./tabEvents";
+import { connectDevTools } from "./devtools";
+import { fitsMaxTabs, getUndoTarget } from "./undoHistory";
+
+export type TabsDispatch = (action: TabsAction) => void;
+
+export interface TabStore {
+    getState: () => TabsState;
+    dispatch: TabsDispatch;
+    subscribe: (listener: () => void) => () => void;
+    // Listen to a lifecycle event; returns a function that removes the listener
+    on: <K extends TabEventType>(type: K, listener: TabEventListener<K>) => () => void;
+    isHydrating: () => boolean;
+    getConfig: () => Required<TabRouterConfig>;
+    getRoutes: () => RouteDefinition[];
+    // Replace the config and routes, e.g. when the provider re-renders with new props
+    configure: (config: TabRouterConfig, routes: RouteDefinition[]) => void;
+    // Wrap dispatch, e.g. to broadcast actions to other windows; returns a function that removes the wrapper
+    enhanceDispatch: (enhancer: (next: TabsDispatch) => TabsDispatch) => () => void;
+    getTabKey: (tab: TabInput) => string;
+    guards: GuardRegistry;
+    canClose: GuardChecks["canClose"];
+    canNavigate: GuardChecks["canNavigate"];
+    canAddTab: (tab: TabInput) => boolean;
+    openTab: (tab: TabInput) => Promise<boolean>;
+    push: (url: string | { path: string; params?: TabParams; hash?: string }) => Promise<boolean>;
+    replace: (url: string | TabInput) => Promise<boolean>;
+    closeTab: (ref: string) => Promise<boolean>;
+    closeTabs: (refs: string[]) => Promise<boolean>;
+    closeOtherTabs: (ref: string) => Promise<boolean>;
+    switchToTab: (ref: string) => void;
+    go: (delta: number) => Promise<boolean>;
+    reopenLastClosed: () => void;
+    // Step through the tab-strip history; tabs that would close are checked by the close guards
+    undo: () => Promise<boolean>;
+    redo: () => Promise<boolean>;
+    canUndo: () => boolean;
+    canRedo: () => boolean;
+}
+
+// Read when they are called, so inline callbacks can change on every render without rebuilding anything
+const callbackOptions: (keyof TabRouterConfig)[] = [
+    "onHydrationError",
+    "onTabEvicted",
+    "beforeNavigate",
+    "beforeClose",
+    "confirm",
+    "events",
+];
+
+export const isSameConfig = (a: Required<TabRouterConfig>, b: Required<TabRouterConfig>) =>
+    (Object.keys(a) as (keyof TabRouterConfig)[]).every((key) => callbackOptions.includes(key) || a[key] === b[key]);
+
+/**
+ * Create a tab store
+ *
+ * The store holds the tab state outside React, so websocket handlers, command
+ * palettes or tests can open and close tabs with the same guards and rules as
+ * the hooks. Pass it to `<TabRouterProvider store={store}>` to render it;
+ * without one the provider creates its own. Refs passed to the navigation
+ * methods are tab ids or paths, like in `useTabs()`.
+ */
+export const createTabStore = (userConfig: TabRouterConfig = {}, initialRoutes: RouteDefinition[] = []): TabStore => {
+    let config: Required<TabRouterConfig> = { ...defaultConfig, ...userConfig };
+    let routes = initialRoutes;
+    const guards = createGuardRegistry();
+    // Tabs with unsaved work that a guard protects are never evicted
+    const isProtected = (tab: Tab) => guards.getBlocking([tab.id]).length > 0;
+    let reducer = createTabsReducer(config, routes, isProtected);
+    let getKey = createTabKeyGetter(config.identity);
+    const listeners = new Set<() => void>();
+
+    const notify = () => Array.from(listeners).forEach((listener) => listener());
+
+    // Read the persisted state; an async storage adapter hydrates the store once it resolves
+    const storedState = readStoredState(config);
+    let state = getInitialState(config, routes, storedState instanceof Promise ? null : storedState);
+    let hydrating = storedState instanceof Promise;
+
+    const eventListeners = new Map<TabEventType, Set<(event: TabEvent) => void>>();
+    const emit = (events: TabEvent[]) =>
+        events.forEach((event) => {
+            (config.events[event.type] as ((event: TabEvent) => void) | undefined)?.(event);
+            Array.from(eventListeners.get(event.type) || []).forEach((listener) => listener(event));
+        });
+
+    // Run the reducer; time travel from the devtools is not recorded again
+    const commit = (action: TabsAction, record: boolean) => {
+        const previous = state;
+        const nextState = reducer(state, action);
+        if (nextState === state) {
+            return;
+        }
+        state = nextState;
+        if (record) {
+            devtools?.record(action, state);
+        }
+        notify();
+        const events = getTabEvents(previous, state, action);
+        emit(events);
+        // Tabs closed by opening or reopening others were evicted to make room
+        if (action.type === "ADD_TAB" || action.type === "REOPEN_CLOSED_TABS") {
+            events.forEach((event) => event.type === "tabClosed" && config.onTabEvicted(event.tab));
+        }
+    };
+    const apply: TabsDispatch = (action) => commit(action, true);
+
+    const devtools = config.devtools
+        ? connectDevTools(
+              config.devtools === true ? {} : config.devtools,
+              () => state,
+              (travelState) => commit({ type: "HYDRATE", payload: travelState }, false)
+          )
+        : null;
+
+    // Middleware runs first, so an action it cancels never reaches other windows
+    const enhancers: ((next: TabsDispatch) => TabsDispatch)[] = [];
+    const middlewareAPI: TabMiddlewareAPI = { getState: () => state, dispatch: (action) => dispatch(action) };
+    const middlewareInstances = new Map<TabMiddleware, (next: TabsDispatch) => TabsDispatch>();
+    const instantiate = (middleware: TabMiddleware) => {
+        const instance = middlewareInstances.get(middleware) || middleware(middlewareAPI);
+        middlewareInstances.set(middleware, instance);
+        return instance;
+    };
+    let chain = apply;
+    const rebuildChain = () => {
+        const enhanced = enhancers.reduceRight((next, enhancer) => enhancer(next), apply);
+        chain = config.middleware.reduceRight((next, middleware) => instantiate(middleware)(next), enhanced);
+    };
+    rebuildChain();
+    const dispatch: TabsDispatch = (action) => chain(action);
+
+    if (storedState instanceof Promise) {
+        storedState
+            .catch(() => null)
+            .then((restored) => {
+                if (restored) {
+                    dispatch({ type: "HYDRATE", payload: getInitialState(config, routes, restored) });
+                }
+                hydrating = false;
+                notify();
+            });
+    }
+
+    const getActiveTab = () => state.tabs[state.active_index] || null;
+    const canClose: GuardChecks["canClose"] = (tabs) => createGuardChecks(guards, config).canClose(tabs);
+    const canNavigate: GuardChecks["canNavigate"] = (event) => createGuardChecks(guards, config).canNavigate(event);
+
+    // Keyed like the reducer keys it, after route params and defaults are applied
+    const getResolvedKey = (tab: TabInput) => getKey(resolveTab(createTab(tab), routes));
+
+    // Whether opening the tab succeeds: it is already open, fits, or another tab can be evicted
+    const canAddTab = (tab: TabInput) => {
+        const key = getResolvedKey(tab);
+        return state.tabs.some((open) => getKey(open) === key) || findEvictionCandidates(state, config, isProtected) !== null;
+    };
+
+    const openTab = async (tabData: TabInput) => {
+        const newTab = createTab(tabData);
+        if (!canAddTab(newTab) || !(await canNavigate({ type: "push", from: getActiveTab(), to: newTab }))) {
+            return false;
+        }
+        dispatch({ type: "ADD_TAB", payload: newTab });
+        // False when the tab did not open here, e.g. a middleware dropped it or another window has it open
+        const activeTab = getActiveTab();
+        return !!activeTab && getKey(activeTab) === getResolvedKey(newTab);
+    };
+
+    // Closes the tabs as one batch; closing the last tab opens initialPath unless allowEmpty is set
+    const closeTabs = async (refs: string[]) => {
+        const closing = refs
+            .map((ref) => findTab(state.tabs, state.active_index, ref))
+            .filter((tab, index, all): tab is Tab => !!tab && all.indexOf(tab) === index);
+        if (closing.length === 0 || !(await canClose(closing))) {
+            return false;
+        }
+        dispatch({
+            type: "CLOSE_TABS",
+            payload: {
+                ids: closing.map((tab) => tab.id),
+                fallback: config.allowEmpty ? undefined : createTab({ path: config.initialPath }),
+            },
+        });
+        return true;
+    };
+
+    const travel = async (type: "UNDO" | "REDO") => {
+        const target = getUndoTarget(state, type);
+        if (!target || !fitsMaxTabs(state, target, config.maxTabs)) {
+            return false;
+        }
+        const closing = state.tabs.filter((tab) => !target.tabs.some((kept) => kept.id === tab.id));
+        if (closing.length > 0 && !(await canClose(closing))) {
+            return false;
+        }
+        dispatch({ type });
+        return true;
+    };
+
+    return {
+        getState: () => state,
+        dispatch,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        on: (type, listener) => {
+            const listeners = eventListeners.get(type) || new Set<(event: TabEvent) => void>();
+            listeners.add(listener as (event: TabEvent) => void);
+            eventListeners.set(type, listeners);
+            return () => {
+                listeners.delete(listener as (event: TabEvent) => void);
+            };
+        },
+        isHydrating: () => hydrating,
+        getConfig: () => config,
+        getRoutes: () => routes,
+        configure: (nextConfig, nextRoutes) => {
+            const merged = { ...defaultConfig, ...nextConfig };
+            if (nextRoutes === routes && isSameConfig(merged, config)) {
+                // Pick up the latest callbacks
+                config = merged;
+                return;
+            }
+            config = merged;
+            routes = nextRoutes;
+            reducer = createTabsReducer(config, routes, isProtected);
+            getKey = createTabKeyGetter(config.identity);
+            rebuildChain();
+        },
+        enhanceDispatch: (enhancer) => {
+            enhancers.push(enhancer);
+            rebuildChain();
+            return () => {
+                enhancers.splice(enhancers.indexOf(enhancer), 1);
+                rebuildChain();
+            };
+        },
+        getTabKey: (tab) => getKey(tab),
+        guards,
+        canClose,
+        canNavigate,
+        canAddTab,
+        openTab,
+        push: (url) => openTab(toTabInput(url, config.queryCodec)),
+        replace: async (url) => {
+            const newTab = createTab(toTabInput(url, config.queryCodec));
+            if (!(await canNavigate({ type: "replace", from: getActiveTab(), to: newTab }))) {
+                return false;
+            }
+            dispatch({ type: "REPLACE_TAB", payload: newTab });
+            return true;
+        },
+        closeTab: (ref) => closeTabs([ref]),
+        closeTabs,
+        closeOtherTabs: async (ref) => {
+            const tab = findTab(state.tabs, state.active_index, ref);
+            if (!tab || !(await canClose(state.tabs.filter((t) => t.id !== tab.id)))) {
+                return false;
+            }
+            dispatch({ type: "CLOSE_OTHER_TABS", payload: tab.id });
+            return true;
+        },
+        switchToTab: (ref) => {
+            const tab = findTab(state.tabs, state.active_index, ref);
+            if (tab) {
+                dispatch({ type: "SET_ACTIVE_TAB", payload: tab.id });
+            }
+        },
+        go: async (delta) => {
+            const activeTab = getActiveTab();
+            if (!activeTab || !canGo(activeTab, delta)) {
+                return false;
+            }
+            const to = getHistory(activeTab)[getHistoryIndex(activeTab) + delta];
+            if (!(await canNavigate({ type: "go", from: activeTab, to }))) {
+                return false;
+            }
+            dispatch({ type: "GO_HISTORY", payload: { id: activeTab.id, delta } });
+            return true;
+        },
+        reopenLastClosed: () => {
+            const closedTabs = state.closed_tabs || [];
+            const last = closedTabs[closedTabs.length - 1];
+            if (last) {
+                dispatch({
+                    type: "REOPEN_CLOSED_TABS",
+                    payload: closedTabs.filter((closed) => closed.batch === last.batch).map((closed) => closed.tab.id),
+                });
+            }
+        },
+        undo: () => travel("UNDO"),
+        redo: () => travel("REDO"),
+        canUndo: () => !!getUndoTarget(state, "UNDO"),
+        canRedo: () => !!getUndoTarget(state, "REDO"),
+    };
+};
@@ -0,0 +1,621 @@
+import { ClosedTab, Tab, TabsAction, TabsState, TabRouterConfig, RouteDefinition } from "./types";
+import { resolveTab } from "./routeMatcher";
+import { createTab, createTabKeyGetter } from "./tabIdentity";
+import { goHistory, pushHistoryEntry, updateCurrentEntry, withHistory } from "./tabHistory";
+import { readLocation } from "./url";
+import { defaultQueryCodec } from "./queryCodec";
+import { createSessionStorage } from "./storage";
+import { PERSISTED_STATE_VERSION } from "./persistence";
+import { clampToPinnedGroup, indexOfTab, sortPinned } from "./tabMeta";
+import { findEvictionCandidates } from "./eviction";
+import { findGroupOf, getGroups, getGroupTabs, normalizeGroups } from "./tabGroups";
+import { fitsMaxTabs, getUndoTarget, isSameStrip, restoreSnapshot, takeSnapshot } from "./undoHistory";
+
+export const defaultConfig: Required<TabRouterConfig> = {
+    storageKey: "tabrouter-tabs",
+    activeTabStorageKey: "tabrouter-active-tab",
+    initialPath: "/",
+    identity: "path",
+    urlSync: false,
+    storage: createSessionStorage(),
+    persistDebounce: 100,
+    version: PERSISTED_STATE_VERSION,
+    migrations: {},
+    onHydrationError: () => undefined,
+    windowSync: "off",
+    maxClosedTabs: 20,
+    nextActiveTab: "right",
+    allowEmpty: false,
+    maxTabs: Infinity,
+    evictionPolicy: "lru",
+    onTabEvicted: () => undefined,
+    beforeNavigate: () => true,
+    beforeClose: () => true,
+    confirm: (message) => (typeof window === "undefined" ? true : window.confirm(message)),
+    queryCodec: defaultQueryCodec,
+    middleware: [],
+    events: {},
+    devtools: false,
+    maxUndoSteps: 50,
+    undoActivation: true,
+};
+
+// Changes that did not come from this window's own edits of the tab strip are not undoable
+const unrecordedActions: TabsAction["type"][] = ["UNDO", "REDO", "HYDRATE", "SYNC_TABS", "APPLY_REMOTE_ACTION"];
+
+// Remember closed tabs with their position and group; tabs closed together form one batch
+const recordClosedTabs = (state: TabsState, closingIndices: number[], maxClosedTabs: number): ClosedTab[] => {
+    const batch = state.tabs[closingIndices[0]]?.id;
+    const closed = closingIndices.map((index) => ({
+        tab: state.tabs[index],
+        index,
+        batch,
+        group: state.groups ? findGroupOf(state, state.tabs[index].id)?.id : undefined,
+    }));
+    return [...(state.closed_tabs || []), ...closed].slice(-maxClosedTabs);
+};
+
+// Reducer function; tabs that `isProtected` reports, e.g. with a blocking guard, are never evicted
+export const createTabsReducer = (
+    config: Required<TabRouterConfig>,
+    routes: RouteDefinition[],
+    isProtected: (tab: Tab) => boolean = () => false
+) => {
+    const getTabKey = createTabKeyGetter(config.identity);
+
+    const recordClosed = (state: TabsState, closingIndices: number[]) =>
+        recordClosedTabs(state, closingIndices, config.maxClosedTabs);
+
+    // Choose which surviving tab becomes active when the active tab is closed, preferring its own group
+    const pickNextActive = (state: TabsState, closingIds: string[]): string | undefined => {
+        const group = state.groups ? findGroupOf(state, state.tabs[state.active_index]?.id) : undefined;
+        const inGroup = (id: string) => !group || group.tab_ids.includes(id);
+        return pickNeighbour(state, closingIds, inGroup) ?? pickNeighbour(state, closingIds, () => true);
+    };
+
+    const pickNeighbour = (
+        state: TabsState,
+        closingIds: string[],
+        isCandidate: (id: string) => boolean
+    ): string | undefined => {
+        const isOpen = (tab: Tab) => !closingIds.includes(tab.id) && isCandidate(tab.id);
+        const left = state.tabs.slice(0, state.active_index).reverse().find(isOpen);
+        const right = state.tabs.slice(state.active_index + 1).find(isOpen);
+        if (config.nextActiveTab === "mru") {
+            const recent = (state.mru || []).find((id) => !closingIds.includes(id) && isCandidate(id));
+            if (recent) {
+                return recent;
+            }
+        }
+        return config.nextActiveTab === "left" ? (left || right)?.id : (right || left)?.id;
+    };
+
+    // Move the active tab to the front of the most-recently-used list and drop closed tabs
+    const trackRecentlyUsed = (state: TabsState): TabsState => {
+        const activeId = state.tabs[state.active_index]?.id;
+        const openIds = new Set(state.tabs.map((tab) => tab.id));
+        const mru = (state.mru || []).filter((id) => id !== activeId && openIds.has(id));
+        return { ...state, mru: activeId ? [activeId, ...mru] : mru };
+    };
+
+    const reducer = (state: TabsState, action: TabsAction, remote = false): TabsState => {
+        let newState: TabsState;
+
+        switch (action.type) {
+            case "ADD_TAB": {
+                const newTab = resolveTab(action.payload, routes);
+                const newTabKey = getTabKey(newTab);
+                const existingTab = state.tabs.findIndex((tab) => getTabKey(tab) === newTabKey);
+
+                if (existingTab !== -1) {
+                    newState = {
+                        ...state,
+                        active_index: existingTab,
+                        tabs: state.tabs.map((tab, idx) =>
+                            idx === existingTab ? pushHistoryEntry(tab, newTab) : tab
+                        ),
+                    };
+                } else {
+                    // The window that opened a shared tab has already made room for it
+                    const evicted = remote ? [] : findEvictionCandidates(state, config, isProtected);
+                    if (!evicted) {
+                        return state;
+                    }
+                    const keptTabs = state.tabs.filter((tab) => !evicted.includes(tab));
+                    const newTabs = sortPinned([...keptTabs, withHistory(newTab)]);
+                    newState = {
+                        ...state,
+                        tabs: newTabs,
+                        active_index: indexOfTab(newTabs, newTab.id),
+                    };
+                    if (evicted.length > 0) {
+                        // Evicted tabs can be reopened like closed ones
+                        newState.closed_tabs = recordClosed(
+                            state,
+                            evicted.map((tab) => state.tabs.indexOf(tab))
+                        );
+                    }
+                }
+                break;
+            }
+
+            case "REPLACE_TAB": {
+                const newTab = resolveTab(action.payload, routes);
+                const newTabKey = getTabKey(newTab);
+                const existingTab = state.tabs.findIndex((tab) => getTabKey(tab) === newTabKey);
+
+                if (existingTab !== -1) {
+                    newState = {
+                        ...state,
+                        active_index: existingTab,
+                    };
+                } else {
+                    // Navigate inside the active tab, keeping its id and recording history
+                    const activeTab = state.tabs[state.active_index];
+                    const newTabs = [...state.tabs];
+                    newTabs[state.active_index] = activeTab
+                        ? pushHistoryEntry(activeTab, newTab)
+                        : withHistory(newTab);
+                    newState = {
+                        ...state,
+                        tabs: newTabs,
+                    };
+                }
+                break;
+            }
+
+            case "CLOSE_TAB":
+                return reducer(state, { type: "CLOSE_TABS", payload: { ids: [action.payload] } });
+
+            case "CLOSE_TABS": {
+                const { ids, fallback } = action.payload;
+                const closingIndices = state.tabs
+                    .map((tab, idx) => (ids.includes(tab.id) ? idx : -1))
+                    .filter((idx) => idx !== -1);
+
+                if (closingIndices.length === 0) {
+                    return state;
+                }
+
+                const remaining = state.tabs.filter((tab) => !ids.includes(tab.id));
+
+                if (remaining.length === 0) {
+                    // Closing everything falls back to a fresh tab unless empty state is allowed
+                    if (!fallback && !config.allowEmpty) {
+                        return state;
+                    }
+                    newState = {
+                        ...state,
+                        tabs: fallback && !config.allowEmpty ? [withHistory(resolveTab(fallback, routes))] : [],
+                        active_index: 0,
+                        closed_tabs: recordClosed(state, closingIndices),
+                    };
+                    break;
+                }
+
+                const activeTab = state.tabs[state.active_index];
+                const nextActiveId =
+                    activeTab && !ids.includes(activeTab.id)
+                        ? activeTab.id
+                        : pickNextActive(state, ids);
+
+                newState = {
+                    ...state,
+                    tabs: remaining,
+                    active_index: indexOfTab(remaining, nextActiveId),
+                    closed_tabs: recordClosed(state, closingIndices),
+                };
+                break;
+            }
+
+            case "CLOSE_OTHER_TABS": {
+                const keepTab = state.tabs.find((tab) => tab.id === action.payload);
+                if (!keepTab) {
+                    return state;
+                }
+                // Pinned tabs are never closed as "others"
+                const newTabs = state.tabs.filter((tab) => tab.pinned || tab.id === keepTab.id);
+                const closingIndices = state.tabs
+                    .map((tab, idx) => (newTabs.includes(tab) ? -1 : idx))
+                    .filter((idx) => idx !== -1);
+                newState = {
+                    ...state,
+                    tabs: newTabs,
+                    active_index: indexOfTab(newTabs, keepTab.id),
+                    closed_tabs: recordClosed(state, closingIndices),
+                };
+                break;
+            }
+
+            case "SET_ACTIVE_TAB": {
+                const tabIndex = state.tabs.findIndex((tab) => tab.id === action.payload);
+                if (tabIndex === -1) {
+                    return state;
+                }
+                newState = {
+                    ...state,
+                    active_index: tabIndex,
+                };
+                break;
+            }
+
+            case "REORDER_TABS": {
+                const { fromIndex, toIndex } = action.payload;
+                const isValidIndex = (index: number) =>
+                    Number.isInteger(index) && index >= 0 && index < state.tabs.length;
+                if (!isValidIndex(fromIndex) || !isValidIndex(toIndex)) {
+                    return state;
+                }
+
+                const targetIndex = clampToPinnedGroup(state.tabs, fromIndex, toIndex);
+                if (targetIndex === fromIndex) {
+                    return state;
+                }
+
+                // Moving a tab must not change which tab is active
+                const activeId = state.tabs[state.active_index]?.id;
+                const newTabs = [...state.tabs];
+                const [movedTab] = newTabs.splice(fromIndex, 1);
+                newTabs.splice(targetIndex, 0, movedTab);
+                newState = {
+                    ...state,
+                    tabs: newTabs,
+                    active_index: indexOfTab(newTabs, activeId),
+                };
+                break;
+            }
+
+            case "UPDATE_TAB_PARAMS": {
+                const { id, params } = action.payload;
+                const tabIndex = state.tabs.findIndex((tab) => tab.id === id);
+                if (tabIndex === -1) {
+                    return state;
+                }
+                newState = {
+                    ...state,
+                    tabs: state.tabs.map((tab, idx) =>
+                        idx === tabIndex ? updateCurrentEntry({ ...tab, params: params || {} }) : tab
+                    ),
+                    active_index: tabIndex,
+                };
+                break;
+            }
+
+            case "GO_HISTORY": {
+                const { id, delta } = action.payload;
+                const tabIndex = state.tabs.findIndex((tab) => tab.id === id);
+                const movedTab = tabIndex === -1 ? null : goHistory(state.tabs[tabIndex], delta);
+                if (!movedTab) {
+                    return state;
+                }
+                newState = {
+                    ...state,
+                    tabs: state.tabs.map((tab, idx) => (idx === tabIndex ? movedTab : tab)),
+                };
+                break;
+            }
+
+            case "UPDATE_TAB_META": {
+                const { id, changes } = action.payload;
+                const tabIndex = state.tabs.findIndex((tab) => tab.id === id);
+                if (tabIndex === -1) {
+                    return state;
+                }
+                const activeId = state.tabs[state.active_index]?.id;
+                const newTabs = sortPinned(
+                    state.tabs.map((tab, idx) =>
+                        idx === tabIndex ? updateCurrentEntry({ ...tab, ...changes }) : tab
+                    )
+                );
+                newState = {
+                    ...state,
+                    tabs: newTabs,
+                    active_index: indexOfTab(newTabs, activeId),
+                };
+                break;
+            }
+
+            case "MOVE_TAB_TO_GROUP": {
+                const { id, groupId, index } = action.payload;
+                const groups = getGroups(state);
+                const source = groups.find((group) => group.tab_ids.includes(id));
+                const target = groups.find((group) => group.id === groupId);
+                const movedTab = state.tabs.find((tab) => tab.id === id);
+
+                if (!source || !target || !movedTab || source === target) {
+                    return state;
+                }
+
+                // Place the tab before the target group's tab at `index`, or after its last tab
+                const remaining = state.tabs.filter((tab) => tab !== movedTab);
+                const targetTabs = getGroupTabs(state, target);
+                const anchorTab = index === undefined ? undefined : targetTabs[index];
+                const insertAt = anchorTab
+                    ? remaining.indexOf(anchorTab)
+                    : remaining.indexOf(targetTabs[targetTabs.length - 1]) + 1;
+                const newTabs = sortPinned([...remaining.slice(0, insertAt), movedTab, ...remaining.slice(insertAt)]);
+
+                newState = {
+                    ...state,
+                    tabs: newTabs,
+                    active_index: indexOfTab(newTabs, id),
+                    groups: groups.map((group) => {
+                        if (group === source) {
+                            return { ...group, tab_ids: group.tab_ids.filter((tabId) => tabId !== id) };
+                        }
+                        return group === target ? { ...group, tab_ids: [...group.tab_ids, id], active_tab_id: id } : group;
+                    }),
+                };
+                break;
+            }
+
+            case "SPLIT_TAB": {
+                const { id, groupId } = action.payload;
+                const groups = getGroups(state);
+                const sourceIndex = groups.findIndex((group) => group.tab_ids.includes(id));
+                const source = groups[sourceIndex];
+
+                // A group's only tab cannot be split off, and group ids must stay unique
+                if (!source || source.tab_ids.length < 2 || groups.some((group) => group.id === groupId)) {
+                    return state;
+                }
+
+                newState = {
+                    ...state,
+                    active_index: indexOfTab(state.tabs, id),
+                    groups: [
+                        ...groups.slice(0, sourceIndex),
+                        { ...source, tab_ids: source.tab_ids.filter((tabId) => tabId !== id) },
+                        { id: groupId, tab_ids: [id], active_tab_id: id },
+                        ...groups.slice(sourceIndex + 1),
+                    ],
+                };
+                break;
+            }
+
+            case "FOCUS_GROUP": {
+                const group = getGroups(state).find((g) => g.id === action.payload);
+                const tabIndex = state.tabs.findIndex((tab) => tab.id === group?.active_tab_id);
+                if (tabIndex === -1) {
+                    return state;
+                }
+                newState = {
+                    ...state,
+                    active_index: tabIndex,
+                };
+                break;
+            }
+
+            case "REOPEN_CLOSED_TABS": {
+                const reopening = (state.closed_tabs || []).filter((closed) =>
+                    action.payload.includes(closed.tab.id)
+                );
+                if (reopening.length === 0) {
+                    return state;
+                }
+
+                // Restore at the original positions, activating an open tab with the same identity instead of duplicating it
+                let newTabs = [...state.tabs];
+                let reopenedId = state.tabs[state.active_index]?.id;
+                const reopened: ClosedTab[] = [];
+                [...reopening]
+                    .sort((a, b) => a.index - b.index)
+                    .forEach((closed) => {
+                        const { tab, index } = closed;
+                        const key = getTabKey(tab);
+                        const openTab = newTabs.find((t) => getTabKey(t) === key);
+                        if (openTab) {
+                            reopenedId = openTab.id;
+                            return;
+                        }
+                        newTabs.splice(Math.min(index, newTabs.length), 0, tab);
+                        reopenedId = tab.id;
+                        reopened.push(closed);
+                    });
+
+                // Reopened tabs have to fit within maxTabs like new ones
+                const evicted = remote ? [] : findEvictionCandidates(state, config, isProtected, reopened.length);
+                if (!evicted) {
+                    return state;
+                }
+                newTabs = sortPinned(newTabs.filter((tab) => !evicted.includes(tab)));
+                const closedTabs = (state.closed_tabs || []).filter((closed) => !reopening.includes(closed));
+
+                // Tabs go back to the group they were closed from; normalizeGroups puts the rest in the focused group
+                const groups = state.groups?.map((group) => {
+                    const returning = reopened.filter((closed) => closed.group === group.id).map((closed) => closed.tab.id);
+                    return returning.length > 0 ? { ...group, tab_ids: [...group.tab_ids, ...returning] } : group;
+                });
+
+                newState = {
+                    ...state,
+                    tabs: newTabs,
+                    groups,
+                    active_index: indexOfTab(newTabs, reopenedId),
+                    closed_tabs:
+                        evicted.length > 0
+                            ? recordClosed(
+                                  { ...state, closed_tabs: closedTabs },
+                                  evicted.map((tab) => state.tabs.indexOf(tab))
+                              )
+                            : closedTabs,
+                };
+                break;
+            }
+
+            case "UNDO":
+            case "REDO": {
+                const snapshot = getUndoTarget(state, action.type);
+                if (!snapshot || !fitsMaxTabs(state, snapshot, config.maxTabs)) {
+                    return state;
+                }
+                const isUndo = action.type === "UNDO";
+                const restored = restoreSnapshot(state, snapshot);
+                const restoredIds = new Set(restored.tabs.map((tab) => tab.id));
+                // Tabs the snapshot does not have can be reopened like any closed tab
+                const closingIndices = state.tabs.flatMap((tab, index) => (restoredIds.has(tab.id) ? [] : [index]));
+                const closedTabs = closingIndices.length > 0 ? recordClosed(state, closingIndices) : state.closed_tabs || [];
+                const remaining = ((isUndo ? state.undo_stack : state.redo_stack) || []).slice(0, -1);
+                const opposite = [...((isUndo ? state.redo_stack : state.undo_stack) || []), takeSnapshot(state)].slice(
+                    -config.maxUndoSteps
+                );
+                newState = {
+                    ...state,
+                    ...restored,
+                    closed_tabs: closedTabs.filter((closed) => !restoredIds.has(closed.tab.id)),
+                    undo_stack: isUndo ? remaining : opposite,
+                    redo_stack: isUndo ? opposite : remaining,
+                };
+                break;
+            }
+
+            case "HYDRATE": {
+                newState = action.payload;
+                break;
+            }
+
+            case "SYNC_TABS": {
+                // Adopt another window's tabs, keeping this window's active tab if it is still open
+                const activeTab = state.tabs[state.active_index];
+                const tabs = action.payload;
+                if (tabs.length === 0) {
+                    return state;
+                }
+                const activeIndex = activeTab
+                    ? tabs.findIndex((tab) => getTabKey(tab) === getTabKey(activeTab))
+                    : -1;
+                newState = {
+                    ...state,
+                    tabs,
+                    active_index: activeIndex === -1 ? 0 : activeIndex,
+                };
+                break;
+            }
+
+            case "APPLY_REMOTE_ACTION": {
+                const { action: remoteAction, activeTabId } = action.payload;
+                const localActiveId = state.tabs[state.active_index]?.id;
+                const senderActiveIndex = state.tabs.findIndex((tab) => tab.id === activeTabId);
+
+                // Tab-relative actions need the sender's active tab
+                if (senderActiveIndex === -1 && remoteAction.type === "REPLACE_TAB") {
+                    return state;
+                }
+
+                // Apply the action as the sender did, relative to its active tab
+                const applied = reducer(
+                    { ...state, active_index: senderActiveIndex === -1 ? state.active_index : senderActiveIndex },
+                    remoteAction,
+                    true
+                );
+                let tabs = applied.tabs;
+                let activeId = localActiveId;
+
+                // Windows that opened the same tab concurrently converge on the lowest id
+                if (remoteAction.type === "ADD_TAB") {
+                    const remoteTab = remoteAction.payload;
+                    const remoteKey = getTabKey(resolveTab(remoteTab, routes));
+                    const merged = tabs.find((tab) => getTabKey(tab) === remoteKey);
+                    if (merged && remoteTab.id < merged.id) {
+                        tabs = tabs.map((tab) => (tab === merged ? { ...tab, id: remoteTab.id } : tab));
+                        activeId = activeId === merged.id ? remoteTab.id : activeId;
+                    }
+                }
+
+                // Keep this window's active tab; fall back to its old position if it was closed
+                const activeIndex = tabs.findIndex((tab) => tab.id === activeId);
+                newState = {
+                    ...applied,
+                    tabs,
+                    mru: state.mru,
+                    groups: state.groups,
+                    active_index:
+                        activeIndex === -1
+                            ? Math.max(0, Math.min(state.active_index, tabs.length - 1))
+                            : activeIndex,
+                };
+                break;
+            }
+
+            default:
+                return state;
+        }
+
+        return trackRecentlyUsed(normalizeGroups(state, newState));
+    };
+
+    // Remember the tab strip before each change to it; a new change discards what was undone
+    return (state: TabsState, action: TabsAction): TabsState => {
+        const newState = reducer(state, action);
+        if (
+            newState === state ||
+            config.maxUndoSteps <= 0 ||
+            unrecordedActions.includes(action.type) ||
+            isSameStrip(state, newState, config.undoActivation)
+        ) {
+            return newState;
+        }
+        return {
+            ...newState,
+            undo_stack: [...(state.undo_stack || []), takeSnapshot(state)].slice(-config.maxUndoSteps),
+            redo_stack: [],
+        };
+    };
+};
+
+// Get initial state
+export const getInitialState = (
+    config: Required<TabRouterConfig>,
+    routes: RouteDefinition[],
+    storedState: TabsState | null
+): TabsState => {
+    const initialTab: Tab = withHistory(resolveTab(createTab({ path: config.initialPath }), routes));
+    const state: TabsState = storedState || {
+        tabs: [initialTab],
+        active_index: 0,
+    };
+
+    if (typeof window === "undefined") {
+        return state;
+    }
+
+    return config.urlSync ? applyLocation(state, config, routes) : state;
+};
+
+// Open (or activate) the tab for the current URL so deep links land on the right tab
+const applyLocation = (
+    state: TabsState,
+    config: Required<TabRouterConfig>,
+    routes: RouteDefinition[]
+): TabsState => {
+    const getTabKey = createTabKeyGetter(config.identity);
+    const locationTab = resolveTab(createTab(readLocation(config.queryCodec)), routes);
+    const locationKey = getTabKey(locationTab);
+    const existingTab = state.tabs.findIndex((tab) => getTabKey(tab) === locationKey);
+
+    if (existingTab !== -1) {
+        return {
+            ...state,
+            tabs: state.tabs.map((tab, idx) =>
+                idx === existingTab ? pushHistoryEntry(tab, locationTab) : tab
+            ),
+            active_index: existingTab,
+        };
+    }
+
+    // A deep link opens a tab like ADD_TAB does, so it has to fit within maxTabs
+    const evicted = findEvictionCandidates(state, config);
+    if (!evicted) {
+        return state;
+    }
+    const newTabs = sortPinned([...state.tabs.filter((tab) => !evicted.includes(tab)), withHistory(locationTab)]);
+    return {
+        ...state,
+        tabs: newTabs,
+        active_index: indexOfTab(newTabs, locationTab.id),
+        closed_tabs:
+            evicted.length > 0
+                ? recordClosedTabs(state, evicted.map((tab) => state.tabs.indexOf(tab)), config.maxClosedTabs)
+                : state.closed_tabs,
+    };
+};
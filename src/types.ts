@@ -1,16 +1,230 @@
-export interface Tab {
+import type { ComponentType } from "react";
+
+export type ParamValue = string | number | boolean | Date | null | ParamValue[] | { [key: string]: ParamValue };
+
+export type TabParams = Record<string, ParamValue>;
+
+export interface TabHistoryEntry {
+    path: string;
+    params?: TabParams;
+    hash?: string;
+    title?: string;
+}
+
+export interface TabMeta {
+    title?: string;
+    icon?: string;
+    pinned?: boolean;
+    dirty?: boolean;
+    meta?: Record<string, unknown>;
+}
+
+export interface Tab extends TabMeta {
+    id: string;
     path: string;
-    params?: Record<string, string | number>;
+    params?: TabParams;
+    hash?: string;
+    history?: TabHistoryEntry[];
+    history_index?: number;
+}
+
+export type TabInput = Omit<Tab, "id"> & { id?: string };
+
+export type TabIdentity = "path" | "path+params" | ((tab: TabInput) => string);
+
+export interface ClosedTab {
+    tab: Tab;
+    index: number;
+    batch: string;
+    group?: string;
+}
+
+export interface TabGroup {
+    id: string;
+    tab_ids: string[];
+    active_tab_id?: string;
+}
+
+// The tab strip as it was before an undoable change
+export interface TabStripSnapshot {
+    tabs: Tab[];
+    active_index: number;
+    groups?: TabGroup[];
 }
 
 export interface TabsState {
     tabs: Tab[];
     active_index: number;
+    closed_tabs?: ClosedTab[];
+    mru?: string[];
+    groups?: TabGroup[];
+    undo_stack?: TabStripSnapshot[];
+    redo_stack?: TabStripSnapshot[];
+}
+
+// Action types
+export type TabsAction =
+    | { type: "ADD_TAB"; payload: Tab }
+    | { type: "REPLACE_TAB"; payload: Tab }
+    | { type: "CLOSE_TAB"; payload: string }
+    | { type: "CLOSE_TABS"; payload: { ids: string[]; fallback?: Tab } }
+    | { type: "CLOSE_OTHER_TABS"; payload: string }
+    | { type: "SET_ACTIVE_TAB"; payload: string }
+    | { type: "REORDER_TABS"; payload: { fromIndex: number; toIndex: number } }
+    | { type: "UPDATE_TAB_PARAMS"; payload: { id: string; params: TabParams } }
+    | { type: "GO_HISTORY"; payload: { id: string; delta: number } }
+    | { type: "UPDATE_TAB_META"; payload: { id: string; changes: Partial<TabMeta> } }
+    | { type: "MOVE_TAB_TO_GROUP"; payload: { id: string; groupId: string; index?: number } }
+    | { type: "SPLIT_TAB"; payload: { id: string; groupId: string } }
+    | { type: "FOCUS_GROUP"; payload: string }
+    | { type: "REOPEN_CLOSED_TABS"; payload: string[] }
+    | { type: "UNDO" }
+    | { type: "REDO" }
+    | { type: "HYDRATE"; payload: TabsState }
+    | { type: "SYNC_TABS"; payload: Tab[] }
+    | { type: "APPLY_REMOTE_ACTION"; payload: { action: TabsAction; activeTabId?: string } };
+
+export interface NavigationEvent {
+    type: "push" | "replace" | "go";
+    from: Tab | null;
+    to: TabInput;
 }
 
+export type WindowSyncMode = "off" | "shared" | "focus-existing";
+
+export interface TabStorage {
+    get: (key: string) => string | null | Promise<string | null>;
+    set: (key: string, value: string) => void | Promise<void>;
+    remove: (key: string) => void | Promise<void>;
+}
+
+export type TabStateMigration = (state: unknown) => unknown;
+
+export type NextActiveTab = "left" | "right" | "mru";
+
+export type RouterScope = "nearest" | "parent" | "root";
+
+export interface RouterScopeOptions {
+    scope?: RouterScope;
+}
+
+export type EvictionPolicy = "reject" | "lru" | "oldest";
+
 export interface TabRouterConfig {
     storageKey?: string;
     activeTabStorageKey?: string;
     initialPath?: string;
+    identity?: TabIdentity;
+    urlSync?: boolean;
+    storage?: TabStorage;
+    persistDebounce?: number;
+    version?: number;
+    migrations?: Record<number, TabStateMigration>;
+    onHydrationError?: (error: Error) => void;
+    windowSync?: WindowSyncMode;
+    maxClosedTabs?: number;
+    nextActiveTab?: NextActiveTab;
+    allowEmpty?: boolean;
+    maxTabs?: number;
+    evictionPolicy?: EvictionPolicy;
+    onTabEvicted?: (tab: Tab) => void;
+    beforeNavigate?: (event: NavigationEvent) => boolean | Promise<boolean>;
+    beforeClose?: (tabs: Tab[]) => boolean | Promise<boolean>;
+    confirm?: (message: string) => boolean | Promise<boolean>;
+    queryCodec?: QueryCodec;
+    middleware?: TabMiddleware[];
+    events?: TabEventHandlers;
+    devtools?: boolean | DevToolsOptions;
+    maxUndoSteps?: number;
+    undoActivation?: boolean;
 }
 
+export interface TabMiddlewareAPI {
+    getState: () => TabsState;
+    dispatch: (action: TabsAction) => void;
+}
+
+// Redux-style middleware: call `next` to continue, with another action to transform it, or not at all to cancel it
+export type TabMiddleware = (
+    api: TabMiddlewareAPI
+) => (next: (action: TabsAction) => void) => (action: TabsAction) => void;
+
+export interface TabEventMap {
+    tabOpened: { tab: Tab; action: TabsAction };
+    tabClosed: { tab: Tab; action: TabsAction };
+    tabActivated: { tab: Tab; previous: Tab | null; action: TabsAction };
+    paramsUpdated: { tab: Tab; previousParams: TabParams; action: TabsAction };
+    reordered: { tabs: Tab[]; action: TabsAction };
+}
+
+export type TabEventType = keyof TabEventMap;
+
+export type TabEvent = { [K in TabEventType]: { type: K } & TabEventMap[K] }[TabEventType];
+
+export type TabEventListener<K extends TabEventType> = (event: Extract<TabEvent, { type: K }>) => void;
+
+export type TabEventHandlers = { [K in TabEventType]?: TabEventListener<K> };
+
+export interface DevToolsOptions {
+    name?: string;
+    maxAge?: number;
+}
+
+export interface QueryCodec {
+    parse: (search: string) => TabParams;
+    stringify: (params: TabParams) => string;
+}
+
+export type RouteParams = Record<string, string>;
+
+export interface RouteComponentProps {
+    tab: Tab;
+    params: RouteParams;
+    route: RouteDefinition;
+}
+
+export interface RouteErrorProps {
+    tab: Tab;
+    route: RouteDefinition;
+    error: Error;
+    // Set for errors thrown while rendering; re-renders the tab
+    retry?: () => void;
+}
+
+export type ParamType = "string" | "number" | "boolean" | "date" | "array" | "object";
+
+export interface ParamSpec {
+    type: ParamType;
+    optional?: boolean;
+    default?: ParamValue;
+    items?: ParamType;
+}
+
+// Coerces a raw param value, throwing an Error when it is invalid
+export type ParamValidator = (value: ParamValue | undefined) => ParamValue | undefined;
+
+export type ParamsSchema = Record<string, ParamSpec | ParamValidator>;
+
+export interface LoaderContext {
+    tab: Tab;
+    params: TabParams;
+    signal: AbortSignal;
+}
+
+// Loads a route's data; `signal` is aborted when the tab closes or the load is superseded
+export type RouteLoader<TData = unknown> = (context: LoaderContext) => TData | Promise<TData>;
+
+export interface RouteDefinition {
+    path: string;
+    component: ComponentType<RouteComponentProps>;
+    title?: string;
+    schema?: ParamsSchema;
+    errorComponent?: ComponentType<RouteErrorProps>;
+    loader?: RouteLoader;
+    staleTime?: number;
+}
+
+export interface RouteMatch {
+    route: RouteDefinition;
+    params: RouteParams;
+}
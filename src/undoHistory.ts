@@ -0,0 +1,41 @@
+import { TabsState, TabStripSnapshot } from "./types";
+
+// What undo restores: which tabs are open, their order and pinning, the groups and optionally the active tab
+const getStripKey = (state: TabsState, withActive: boolean) =>
+    JSON.stringify([
+        state.tabs.map((tab) => [tab.id, !!tab.pinned]),
+        (state.groups || []).map((group) => [group.id, group.tab_ids, withActive ? group.active_tab_id : null]),
+        withActive ? state.tabs[state.active_index]?.id : null,
+    ]);
+
+export const isSameStrip = (a: TabsState, b: TabsState, withActive: boolean) =>
+    getStripKey(a, withActive) === getStripKey(b, withActive);
+
+export const takeSnapshot = (state: TabsState): TabStripSnapshot => ({
+    tabs: state.tabs,
+    active_index: state.active_index,
+    groups: state.groups,
+});
+
+/**
+ * Bring a snapshot back
+ * Tabs that are still open keep their current title, params and history;
+ * only tabs that were closed since come back as they were
+ */
+export const restoreSnapshot = (state: TabsState, snapshot: TabStripSnapshot): TabStripSnapshot => {
+    const openById = new Map(state.tabs.map((tab) => [tab.id, tab]));
+    const tabs = snapshot.tabs.map((tab) => {
+        const open = openById.get(tab.id);
+        return !open || !!open.pinned === !!tab.pinned ? open || tab : { ...open, pinned: tab.pinned };
+    });
+    return { tabs, active_index: snapshot.active_index, groups: snapshot.groups };
+};
+
+export const getUndoTarget = (state: TabsState, type: "UNDO" | "REDO"): TabStripSnapshot | undefined => {
+    const stack = (type === "UNDO" ? state.undo_stack : state.redo_stack) || [];
+    return stack[stack.length - 1];
+};
+
+// An undo must not grow the strip beyond maxTabs; evicting tabs to make room would change what it restores
+export const fitsMaxTabs = (state: TabsState, snapshot: TabStripSnapshot, maxTabs: number) =>
+    snapshot.tabs.length <= Math.max(maxTabs, state.tabs.length);
@@ -0,0 +1,87 @@
+import { QueryCodec, RouteDefinition, Tab, TabInput, TabParams } from "./types";
+import { matchRoutes } from "./routeMatcher";
+import { defaultQueryCodec } from "./queryCodec";
+
+export interface ParsedHref {
+    path: string;
+    params: TabParams;
+    hash: string;
+}
+
+/**
+ * Parse an href string ("/users?id=123#section") into path, query params and hash
+ * Relative paths are handled manually to avoid URL constructor issues
+ */
+export const parseHref = (href: string, codec: QueryCodec = defaultQueryCodec): ParsedHref => {
+    let path = href;
+    let hash = "";
+    let searchString = "";
+
+    // Extract hash first (it comes last)
+    const hashIndex = href.indexOf("#");
+    if (hashIndex !== -1) {
+        hash = href.substring(hashIndex);
+        path = href.substring(0, hashIndex);
+    }
+
+    // Extract query string
+    const queryIndex = path.indexOf("?");
+    if (queryIndex !== -1) {
+        searchString = path.substring(queryIndex + 1);
+        path = path.substring(0, queryIndex);
+    }
+
+    const params = searchString ? codec.parse(searchString) : {};
+
+    return { path, params, hash };
+};
+
+// Build an href string from a path, query params and hash
+export const buildHref = (
+    path: string,
+    params: TabParams = {},
+    hash: string = "",
+    codec: QueryCodec = defaultQueryCodec
+): string => {
+    const queryString = codec.stringify(params);
+    return `${queryString ? `${path}?${queryString}` : path}${hash}`;
+};
+
+/**
+ * Build the address bar URL for a tab
+ * Params that come from the tab's route pattern are already part of the path
+ */
+export const getTabHref = (
+    tab: Tab,
+    routes: RouteDefinition[],
+    codec: QueryCodec = defaultQueryCodec
+): string => {
+    const params = { ...tab.params };
+    const match = matchRoutes(routes, tab.path);
+    if (match) {
+        Object.keys(match.params).forEach((key) => {
+            if (String(params[key]) === match.params[key]) {
+                delete params[key];
+            }
+        });
+    }
+    return buildHref(tab.path, params, tab.hash, codec);
+};
+
+// Resolve a navigation target; strings may carry a query string and a hash
+export const toTabInput = (
+    url: string | { path: string; params?: TabParams; hash?: string },
+    codec: QueryCodec = defaultQueryCodec
+): TabInput => {
+    const { path, params, hash } = typeof url === "string" ? parseHref(url, codec) : url;
+    return hash ? { path, params: params || {}, hash } : { path, params: params || {} };
+};
+
+// Read the current browser location as a tab
+export const readLocation = (codec: QueryCodec = defaultQueryCodec): TabInput => {
+    const { path, params, hash } = parseHref(
+        window.location.pathname + window.location.search + window.location.hash,
+        codec
+    );
+    return hash ? { path, params, hash } : { path, params };
+};
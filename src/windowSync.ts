@@ -0,0 +1,77 @@
+import { Tab, TabsAction } from "./types";
+
+export type WindowSyncMessage =
+    | { type: "action"; source: string; action: TabsAction; activeTabId?: string }
+    | { type: "sync-request"; source: string }
+    | { type: "sync-state"; source: string; target: string; tabs: Tab[] }
+    | { type: "presence"; source: string; keys: string[] }
+    | { type: "presence-request"; source: string }
+    | { type: "focus"; source: string; target: string; key: string; request: string }
+    | { type: "focus-ack"; source: string; target: string; request: string }
+    | { type: "leave"; source: string };
+
+export interface SyncTransport {
+    post: (message: WindowSyncMessage) => void;
+    subscribe: (listener: (message: WindowSyncMessage) => void) => () => void;
+    close: () => void;
+}
+
+export const createWindowId = (): string =>
+    `window-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Create the transport used to talk to other windows of the same origin
+ * Uses BroadcastChannel, falling back to `storage` events on localStorage
+ * Returns null during SSR
+ */
+export const createSyncTransport = (name: string): SyncTransport | null => {
+    if (typeof window === "undefined") {
+        return null;
+    }
+
+    if (typeof BroadcastChannel !== "undefined") {
+        const channel = new BroadcastChannel(name);
+        return {
+            post: (message) => channel.postMessage(message),
+            subscribe: (listener) => {
+                const handleMessage = (event: MessageEvent<WindowSyncMessage>) => listener(event.data);
+                channel.addEventListener("message", handleMessage);
+                return () => channel.removeEventListener("message", handleMessage);
+            },
+            close: () => channel.close(),
+        };
+    }
+
+    // Each message gets a nonce so identical messages still trigger a storage event
+    const messageKey = `${name}:message`;
+    return {
+        post: (message) => {
+            window.localStorage.setItem(
+                messageKey,
+                JSON.stringify({ message, nonce: Math.random().toString(36).slice(2) })
+            );
+        },
+        subscribe: (listener) => {
+            const handleStorage = (event: StorageEvent) => {
+                if (event.key === messageKey && event.newValue) {
+                    listener(JSON.parse(event.newValue).message);
+                }
+            };
+            window.addEventListener("storage", handleStorage);
+            return () => window.removeEventListener("storage", handleStorage);
+        },
+        close: () => undefined,
+    };
+};
+
+// Actions that change the shared tab list; activation stays local to each window
+export const isSharedAction = (action: TabsAction): boolean =>
+    action.type !== "SET_ACTIVE_TAB" &&
+    action.type !== "FOCUS_GROUP" &&
+    action.type !== "SPLIT_TAB" &&
+    action.type !== "MOVE_TAB_TO_GROUP" &&
+    action.type !== "UNDO" &&
+    action.type !== "REDO" &&
+    action.type !== "HYDRATE" &&
+    action.type !== "SYNC_TABS" &&
+    action.type !== "APPLY_REMOTE_ACTION";